@@ -0,0 +1,19 @@
+-- Record which embedding provider/model produced each memory's vector so
+-- stores with mixed (incomparable) embeddings can be detected.
+
+ALTER TABLE memories
+  ADD COLUMN IF NOT EXISTS embedding_provider TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dim INTEGER;
+
+-- Existing vectors were produced by OpenAI text-embedding-3-small
+UPDATE memories
+SET
+  embedding_provider = 'openai',
+  embedding_model = 'text-embedding-3-small',
+  embedding_dim = 1536
+WHERE embedding IS NOT NULL
+  AND embedding_provider IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memories_embedding_model
+  ON memories(user_id, embedding_provider, embedding_model);
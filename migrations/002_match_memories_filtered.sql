@@ -0,0 +1,69 @@
+-- Filtered, keyset-paginated vector search used by /api/v1/memories/search
+-- when filters, a custom threshold or a cursor are supplied. Results are
+-- ordered by (similarity DESC, id ASC); pass the last row's similarity and id
+-- as after_similarity/after_id to fetch the next page.
+
+CREATE OR REPLACE FUNCTION match_memories_filtered(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  filter_user_id uuid,
+  filter_project_id text DEFAULT NULL,
+  filter_source text DEFAULT NULL,
+  filter_tags text[] DEFAULT NULL,
+  filter_created_after timestamptz DEFAULT NULL,
+  filter_created_before timestamptz DEFAULT NULL,
+  after_similarity float DEFAULT NULL,
+  after_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  text text,
+  source text,
+  project_id text,
+  tags text[],
+  metadata jsonb,
+  embedding_provider text,
+  embedding_model text,
+  embedding_dim integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      m.id,
+      m.user_id,
+      m.text,
+      m.source,
+      m.project_id,
+      m.tags,
+      m.metadata,
+      m.embedding_provider,
+      m.embedding_model,
+      m.embedding_dim,
+      m.created_at,
+      m.updated_at,
+      1 - (m.embedding <=> query_embedding) AS similarity
+    FROM memories m
+    WHERE m.user_id = filter_user_id
+      AND m.embedding IS NOT NULL
+      AND (filter_project_id IS NULL OR m.project_id = filter_project_id)
+      AND (filter_source IS NULL OR m.source = filter_source)
+      AND (filter_tags IS NULL OR m.tags @> filter_tags)
+      AND (filter_created_after IS NULL OR m.created_at >= filter_created_after)
+      AND (filter_created_before IS NULL OR m.created_at <= filter_created_before)
+  ) scored
+  WHERE scored.similarity > match_threshold
+    AND (
+      after_similarity IS NULL
+      OR scored.similarity < after_similarity
+      OR (scored.similarity = after_similarity AND scored.id > after_id)
+    )
+  ORDER BY scored.similarity DESC, scored.id ASC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,79 @@
+-- Keyset pagination for GET /api/v1/memories and /context/all.
+--
+-- Listings are ordered by (sort column, id) so every sort needs a matching
+-- index, and sorting by relationship strength needs a stored per-memory total.
+
+ALTER TABLE memories
+  ADD COLUMN IF NOT EXISTS relationship_strength double precision NOT NULL DEFAULT 0;
+
+-- Sum of the strengths of every relationship touching the memory
+CREATE OR REPLACE FUNCTION refresh_relationship_strength(target_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE memories
+  SET relationship_strength = COALESCE((
+    SELECT SUM(r.strength)
+    FROM memory_relationships r
+    WHERE r.memory_id = target_id OR r.related_memory_id = target_id
+  ), 0)
+  WHERE id = target_id;
+$$;
+
+CREATE OR REPLACE FUNCTION memory_relationships_strength_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_relationship_strength(OLD.memory_id);
+    PERFORM refresh_relationship_strength(OLD.related_memory_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_relationship_strength(NEW.memory_id);
+    PERFORM refresh_relationship_strength(NEW.related_memory_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS memory_relationships_strength ON memory_relationships;
+CREATE TRIGGER memory_relationships_strength
+  AFTER INSERT OR UPDATE OR DELETE ON memory_relationships
+  FOR EACH ROW EXECUTE FUNCTION memory_relationships_strength_trigger();
+
+UPDATE memories m
+SET relationship_strength = totals.strength
+FROM (
+  SELECT memory_id AS id, SUM(strength) AS strength
+  FROM (
+    SELECT memory_id, strength FROM memory_relationships
+    UNION ALL
+    SELECT related_memory_id, strength FROM memory_relationships
+  ) edges
+  GROUP BY memory_id
+) totals
+WHERE m.id = totals.id;
+
+-- Keep updated_at current so sort=updated reflects edits
+CREATE OR REPLACE FUNCTION touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS memories_touch_updated_at ON memories;
+CREATE TRIGGER memories_touch_updated_at
+  BEFORE UPDATE OF text, source, project_id, tags, metadata ON memories
+  FOR EACH ROW EXECUTE FUNCTION touch_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_created
+  ON memories(user_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_memories_user_updated
+  ON memories(user_id, updated_at, id);
+CREATE INDEX IF NOT EXISTS idx_memories_user_strength
+  ON memories(user_id, relationship_strength, id);
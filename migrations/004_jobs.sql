@@ -0,0 +1,92 @@
+-- Durable background job queue (services/jobQueue.ts).
+--
+-- Workers lease due jobs through claim_jobs(); a job whose lease expires
+-- because its worker died is claimed again, and dead-lettered once it has
+-- used all of its attempts.
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL,
+  user_id uuid,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  run_at timestamptz NOT NULL DEFAULT now(),
+  locked_by text,
+  locked_until timestamptz,
+  last_error text,
+  result jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_due
+  ON jobs(type, run_at)
+  WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user
+  ON jobs(user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION claim_jobs(
+  worker_id text,
+  job_types text[],
+  batch_size int,
+  lease_ms int
+)
+RETURNS SETOF jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE jobs
+  SET status = 'dead',
+      last_error = COALESCE(last_error, 'Lease expired on final attempt'),
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = now()
+  WHERE status = 'running'
+    AND locked_until < now()
+    AND attempts >= max_attempts
+    AND type = ANY(job_types);
+
+  RETURN QUERY
+  UPDATE jobs
+  SET status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_by = worker_id,
+      locked_until = now() + lease_ms * interval '1 millisecond',
+      updated_at = now()
+  WHERE jobs.id IN (
+    SELECT j.id
+    FROM jobs j
+    WHERE j.type = ANY(job_types)
+      AND (
+        (j.status = 'queued' AND j.run_at <= now())
+        OR (j.status = 'running' AND j.locked_until < now())
+      )
+    ORDER BY j.run_at, j.created_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING jobs.*;
+END;
+$$;
+
+-- Return a leased job to the queue without counting the attempt
+-- (used when a worker drains on shutdown)
+CREATE OR REPLACE FUNCTION release_job(job_id uuid, worker_id text)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE jobs
+  SET status = 'queued',
+      attempts = GREATEST(attempts - 1, 0),
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = now()
+  WHERE id = job_id
+    AND status = 'running'
+    AND locked_by = worker_id;
+$$;
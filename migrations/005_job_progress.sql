@@ -0,0 +1,6 @@
+-- Progress checkpoints for long-running jobs (e.g. relationship backfills).
+-- Workers save progress with each lease heartbeat so a retried or
+-- reclaimed job resumes where it stopped.
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS progress jsonb;
@@ -0,0 +1,14 @@
+-- Per-memory relationship detection status.
+-- Set to 'pending' when detection is queued and to the outcome of the last
+-- run afterwards. These columns are not covered by memories_touch_updated_at,
+-- so recording a status does not change updated_at.
+
+ALTER TABLE memories
+  ADD COLUMN IF NOT EXISTS detection_status text
+    CHECK (detection_status IN ('pending', 'succeeded', 'failed')),
+  ADD COLUMN IF NOT EXISTS detection_error text,
+  ADD COLUMN IF NOT EXISTS detected_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_detection_status
+  ON memories(user_id, detection_status)
+  WHERE detection_status IS NOT NULL;
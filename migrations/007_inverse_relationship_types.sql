@@ -0,0 +1,24 @@
+-- Inverse relationship types.
+--
+-- Edges stay directional (memory_id -> related_memory_id); causes and
+-- preceded_by are the inverses of caused_by and follows, for edges that
+-- are created from the other end.
+
+ALTER TABLE memory_relationships
+  DROP CONSTRAINT IF EXISTS memory_relationships_relationship_type_check;
+
+ALTER TABLE memory_relationships
+  ADD CONSTRAINT memory_relationships_relationship_type_check
+  CHECK (relationship_type IN (
+    'related_to',
+    'similar_to',
+    'contradicts',
+    'caused_by',
+    'causes',
+    'follows',
+    'preceded_by'
+  ));
+
+-- Incoming edges are looked up by related_memory_id
+CREATE INDEX IF NOT EXISTS idx_memory_relationships_related_strength
+  ON memory_relationships(related_memory_id, strength DESC);
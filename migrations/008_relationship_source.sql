@@ -0,0 +1,10 @@
+-- Relationship provenance.
+--
+-- source records who created an edge: 'ai' for relationship detection,
+-- 'user' for edges created or corrected through the API. Detection never
+-- modifies or replaces 'user' edges.
+
+ALTER TABLE memory_relationships
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'ai'
+    CHECK (source IN ('ai', 'user')),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,28 @@
+-- Relationship feedback (services/relationshipFeedback.ts).
+--
+-- Users' accept/reject/retype judgements of detected relationships. Rows
+-- keep the pair and the detected type and strength, since rejecting deletes
+-- the edge; they drive per-type precision stats, per-user strength
+-- calibration and suppression of rejected pairs during re-detection.
+
+CREATE TABLE IF NOT EXISTS relationship_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  relationship_id uuid REFERENCES memory_relationships(id) ON DELETE SET NULL,
+  memory_id uuid NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+  related_memory_id uuid NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+  verdict text NOT NULL CHECK (verdict IN ('accept', 'reject', 'retype')),
+  relationship_type text NOT NULL,
+  strength numeric(3,2) NOT NULL,
+  corrected_type text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_feedback_user
+  ON relationship_feedback(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_feedback_memory
+  ON relationship_feedback(memory_id);
+
+CREATE INDEX IF NOT EXISTS idx_relationship_feedback_related_memory
+  ON relationship_feedback(related_memory_id);
@@ -0,0 +1,13 @@
+-- Contradiction resolution (services/contradictions.ts).
+--
+-- A contradicts edge is unresolved until the user keeps one memory, merges
+-- the pair or marks both valid; the decision is recorded on the edge.
+
+ALTER TABLE memory_relationships
+  ADD COLUMN IF NOT EXISTS resolution TEXT
+    CHECK (resolution IN ('keep_a', 'keep_b', 'merge', 'both_valid')),
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_memory_relationships_unresolved_contradictions
+  ON memory_relationships(memory_id)
+  WHERE relationship_type = 'contradicts' AND resolution IS NULL;
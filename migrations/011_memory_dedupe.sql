@@ -0,0 +1,59 @@
+-- Memory deduplication (services/deduplication.ts).
+--
+-- text_hash is the SHA-256 of the memory's original text, trimmed, with
+-- whitespace collapsed and lowercased (textHash() in utils/text.ts); exact
+-- duplicates are looked up by it within a project.
+
+ALTER TABLE memories
+  ADD COLUMN IF NOT EXISTS text_hash text;
+
+UPDATE memories
+SET text_hash = encode(sha256(convert_to(
+  lower(regexp_replace(
+    regexp_replace(COALESCE(metadata->>'original_text', text), '^\s+|\s+$', '', 'g'),
+    '\s+', ' ', 'g'
+  )),
+  'UTF8'
+)), 'hex')
+WHERE text_hash IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_project_text_hash
+  ON memories(user_id, project_id, text_hash);
+
+-- Move a memory's relationships to another memory when merging. Edges that
+-- would link the target to itself, or to a memory it is already linked to
+-- (in either direction), are dropped. Returns the number of edges moved.
+CREATE OR REPLACE FUNCTION reassign_memory_relationships(from_id uuid, to_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  moved integer;
+  moved_in integer;
+BEGIN
+  DELETE FROM memory_relationships r
+  WHERE (r.memory_id = from_id OR r.related_memory_id = from_id)
+    AND (
+      r.memory_id = to_id
+      OR r.related_memory_id = to_id
+      OR EXISTS (
+        SELECT 1
+        FROM memory_relationships e
+        WHERE (e.memory_id = to_id AND e.related_memory_id IN (r.memory_id, r.related_memory_id))
+           OR (e.related_memory_id = to_id AND e.memory_id IN (r.memory_id, r.related_memory_id))
+      )
+    );
+
+  UPDATE memory_relationships
+  SET memory_id = to_id, updated_at = now()
+  WHERE memory_id = from_id;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  UPDATE memory_relationships
+  SET related_memory_id = to_id, updated_at = now()
+  WHERE related_memory_id = from_id;
+  GET DIAGNOSTICS moved_in = ROW_COUNT;
+
+  RETURN moved + moved_in;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Memory version history (services/memoryVersions.ts).
+--
+-- Every update that changes a memory's text, source, project, tags or
+-- metadata keeps the previous state as a numbered version, whichever code
+-- path made the update. Versions are deleted with their memory.
+
+CREATE TABLE IF NOT EXISTS memory_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  memory_id uuid NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  version integer NOT NULL,
+  text text NOT NULL,
+  source text,
+  project_id text,
+  tags text[] NOT NULL DEFAULT '{}',
+  metadata jsonb NOT NULL DEFAULT '{}',
+  valid_from timestamptz NOT NULL,
+  valid_until timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (memory_id, version)
+);
+
+CREATE OR REPLACE FUNCTION record_memory_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO memory_versions (
+    memory_id, user_id, version, text, source, project_id, tags, metadata, valid_from, valid_until
+  )
+  SELECT
+    OLD.id, OLD.user_id, COALESCE(MAX(v.version), 0) + 1, OLD.text, OLD.source, OLD.project_id,
+    COALESCE(OLD.tags, '{}'), COALESCE(OLD.metadata, '{}'), OLD.updated_at, NEW.updated_at
+  FROM memory_versions v
+  WHERE v.memory_id = OLD.id;
+
+  RETURN NULL;
+END;
+$$;
+
+-- AFTER, so valid_until is the updated_at set by memories_touch_updated_at
+DROP TRIGGER IF EXISTS memories_record_version ON memories;
+CREATE TRIGGER memories_record_version
+  AFTER UPDATE OF text, source, project_id, tags, metadata ON memories
+  FOR EACH ROW
+  WHEN (
+    OLD.text IS DISTINCT FROM NEW.text
+    OR OLD.source IS DISTINCT FROM NEW.source
+    OR OLD.project_id IS DISTINCT FROM NEW.project_id
+    OR OLD.tags IS DISTINCT FROM NEW.tags
+    OR OLD.metadata IS DISTINCT FROM NEW.metadata
+  )
+  EXECUTE FUNCTION record_memory_version();
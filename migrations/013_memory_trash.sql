@@ -0,0 +1,121 @@
+-- Soft deletion (services/trash.ts).
+--
+-- DELETE /api/v1/memories/:id sets deleted_at instead of removing the row.
+-- Memories in the trash are excluded from every listing, search and context
+-- query, and their relationships are hidden (not deleted) until the memory
+-- is restored. Trashed memories are purged after MEMORY_TRASH_RETENTION_DAYS.
+
+ALTER TABLE memories
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_trash
+  ON memories(user_id, deleted_at DESC, id DESC)
+  WHERE deleted_at IS NOT NULL;
+
+-- Vector search now serves unfiltered searches as well (the original
+-- match_memories RPC is no longer used), so it must skip the trash
+CREATE OR REPLACE FUNCTION match_memories_filtered(
+  query_embedding vector(1536),
+  match_threshold float,
+  match_count int,
+  filter_user_id uuid,
+  filter_project_id text DEFAULT NULL,
+  filter_source text DEFAULT NULL,
+  filter_tags text[] DEFAULT NULL,
+  filter_created_after timestamptz DEFAULT NULL,
+  filter_created_before timestamptz DEFAULT NULL,
+  after_similarity float DEFAULT NULL,
+  after_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  text text,
+  source text,
+  project_id text,
+  tags text[],
+  metadata jsonb,
+  embedding_provider text,
+  embedding_model text,
+  embedding_dim integer,
+  created_at timestamptz,
+  updated_at timestamptz,
+  similarity float
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      m.id,
+      m.user_id,
+      m.text,
+      m.source,
+      m.project_id,
+      m.tags,
+      m.metadata,
+      m.embedding_provider,
+      m.embedding_model,
+      m.embedding_dim,
+      m.created_at,
+      m.updated_at,
+      1 - (m.embedding <=> query_embedding) AS similarity
+    FROM memories m
+    WHERE m.user_id = filter_user_id
+      AND m.deleted_at IS NULL
+      AND m.embedding IS NOT NULL
+      AND (filter_project_id IS NULL OR m.project_id = filter_project_id)
+      AND (filter_source IS NULL OR m.source = filter_source)
+      AND (filter_tags IS NULL OR m.tags @> filter_tags)
+      AND (filter_created_after IS NULL OR m.created_at >= filter_created_after)
+      AND (filter_created_before IS NULL OR m.created_at <= filter_created_before)
+  ) scored
+  WHERE scored.similarity > match_threshold
+    AND (
+      after_similarity IS NULL
+      OR scored.similarity < after_similarity
+      OR (scored.similarity = after_similarity AND scored.id > after_id)
+    )
+  ORDER BY scored.similarity DESC, scored.id ASC
+  LIMIT match_count;
+$$;
+
+-- Hidden relationships do not count towards relationship_strength
+CREATE OR REPLACE FUNCTION refresh_relationship_strength(target_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE memories
+  SET relationship_strength = COALESCE((
+    SELECT SUM(r.strength)
+    FROM memory_relationships r
+    JOIN memories other
+      ON other.id = CASE WHEN r.memory_id = target_id THEN r.related_memory_id ELSE r.memory_id END
+    WHERE (r.memory_id = target_id OR r.related_memory_id = target_id)
+      AND other.deleted_at IS NULL
+  ), 0)
+  WHERE id = target_id;
+$$;
+
+-- Trashing or restoring a memory changes its neighbours' totals
+CREATE OR REPLACE FUNCTION memories_trash_strength_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM refresh_relationship_strength(neighbour.id)
+  FROM (
+    SELECT related_memory_id AS id FROM memory_relationships WHERE memory_id = NEW.id
+    UNION
+    SELECT memory_id FROM memory_relationships WHERE related_memory_id = NEW.id
+  ) neighbour;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS memories_trash_strength ON memories;
+CREATE TRIGGER memories_trash_strength
+  AFTER UPDATE OF deleted_at ON memories
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS DISTINCT FROM NEW.deleted_at)
+  EXECUTE FUNCTION memories_trash_strength_trigger();
@@ -0,0 +1,51 @@
+-- Bulk memory updates (POST /api/v1/memories/bulk, services/bulkOperations.ts).
+--
+-- Applies one set of changes to a chunk of the user's memories in a single
+-- statement; memories in the trash are left alone. NULL arguments leave the
+-- corresponding column unchanged. Tags keep their order, with added tags
+-- appended; set_metadata keys with a null value are removed. Returns the
+-- number of memories updated.
+
+CREATE OR REPLACE FUNCTION bulk_update_memories(
+  filter_user_id uuid,
+  memory_ids uuid[],
+  add_tags text[] DEFAULT NULL,
+  remove_tags text[] DEFAULT NULL,
+  new_project_id text DEFAULT NULL,
+  set_metadata jsonb DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE sql
+AS $$
+  WITH updated AS (
+    UPDATE memories m
+    SET
+      tags = CASE
+        WHEN add_tags IS NULL AND remove_tags IS NULL THEN m.tags
+        ELSE ARRAY(
+          SELECT u.tag
+          FROM (
+            SELECT tag, MIN(ord) AS ord
+            FROM unnest(COALESCE(m.tags, '{}') || COALESCE(add_tags, '{}')) WITH ORDINALITY AS t(tag, ord)
+            GROUP BY tag
+          ) u
+          WHERE NOT (u.tag = ANY(COALESCE(remove_tags, '{}')))
+          ORDER BY u.ord
+        )
+      END,
+      project_id = COALESCE(new_project_id, m.project_id),
+      metadata = CASE
+        WHEN set_metadata IS NULL THEN m.metadata
+        ELSE (COALESCE(m.metadata, '{}') - ARRAY(
+            SELECT key FROM jsonb_each(set_metadata) WHERE jsonb_typeof(value) = 'null'
+          )) || COALESCE((
+            SELECT jsonb_object_agg(key, value) FROM jsonb_each(set_metadata) WHERE jsonb_typeof(value) <> 'null'
+          ), '{}')
+      END
+    WHERE m.user_id = filter_user_id
+      AND m.id = ANY(memory_ids)
+      AND m.deleted_at IS NULL
+    RETURNING 1
+  )
+  SELECT COUNT(*)::integer FROM updated;
+$$;
@@ -0,0 +1,21 @@
+-- API key management (`recallbricks keys create|list|revoke`).
+--
+-- Keys get an optional name and record when they were created and revoked.
+-- Revoking sets is_active = false, which the API already rejects. The table
+-- is created for databases that do not have it yet.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL UNIQUE,
+  user_id uuid NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  last_used_at timestamptz
+);
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS name text,
+  ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_created
+  ON api_keys(user_id, created_at DESC);
@@ -0,0 +1,42 @@
+-- Keep contradiction resolutions through merges (services/contradictions.ts).
+--
+-- Resolving a contradiction with `merge` merges memory b into a, which used
+-- to drop the resolved a-b edge along with the other edges that would link
+-- a to itself. Resolved edges between the two memories now stay on the
+-- merged (trashed) memory, so restoring it brings the decision back.
+
+CREATE OR REPLACE FUNCTION reassign_memory_relationships(from_id uuid, to_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  moved integer;
+  moved_in integer;
+BEGIN
+  DELETE FROM memory_relationships r
+  WHERE (r.memory_id = from_id OR r.related_memory_id = from_id)
+    AND NOT (r.resolution IS NOT NULL AND (r.memory_id = to_id OR r.related_memory_id = to_id))
+    AND (
+      r.memory_id = to_id
+      OR r.related_memory_id = to_id
+      OR EXISTS (
+        SELECT 1
+        FROM memory_relationships e
+        WHERE (e.memory_id = to_id AND e.related_memory_id IN (r.memory_id, r.related_memory_id))
+           OR (e.related_memory_id = to_id AND e.memory_id IN (r.memory_id, r.related_memory_id))
+      )
+    );
+
+  UPDATE memory_relationships
+  SET memory_id = to_id, updated_at = now()
+  WHERE memory_id = from_id AND related_memory_id <> to_id;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  UPDATE memory_relationships
+  SET related_memory_id = to_id, updated_at = now()
+  WHERE related_memory_id = from_id AND memory_id <> to_id;
+  GET DIAGNOSTICS moved_in = ROW_COUNT;
+
+  RETURN moved + moved_in;
+END;
+$$;
@@ -0,0 +1,167 @@
+#!/usr/bin/env node
+/**
+ * RecallBricks CLI
+ *
+ * Runs exactly one mode of the service, or an operator task against its
+ * storage. Commands are imported lazily so each loads only what it needs,
+ * and everything but `serve` logs to stderr: stdout carries the MCP protocol
+ * for `mcp` and the command's output otherwise.
+ */
+
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const USAGE = `Usage: recallbricks <command> [options]
+
+Commands:
+  serve                                   Start the HTTP API (REST, and MCP at /mcp)
+  mcp                                     Serve MCP over stdin/stdout
+  migrate [--dry-run] [--dir <path>]      Apply pending SQL migrations (needs DATABASE_URL)
+  keys create --user <id> [--name <name>] Create an API key and print it
+  keys list [--user <id>]                 List API keys
+  keys revoke <key|id>                    Revoke an API key
+  backfill-embeddings [--user <id>] [--batch-size <n>] [--dry-run]
+                                          Embed memories with no embedding from the
+                                          configured provider and model`;
+
+const DEFAULT_BACKFILL_BATCH_SIZE = 100;
+const MAX_BACKFILL_BATCH_SIZE = 1000;
+
+class UsageError extends Error {}
+
+type Options = {
+  user?: string;
+  name?: string;
+  dir?: string;
+  'batch-size'?: string;
+  'dry-run'?: boolean;
+};
+
+function parseBatchSize(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_BACKFILL_BATCH_SIZE;
+
+  const batchSize = Number(value);
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BACKFILL_BATCH_SIZE) {
+    throw new UsageError(`--batch-size must be an integer between 1 and ${MAX_BACKFILL_BATCH_SIZE}`);
+  }
+  return batchSize;
+}
+
+async function runKeys(args: string[], options: Options): Promise<void> {
+  const [action, keyOrId] = args;
+  if (action !== 'create' && action !== 'list' && action !== 'revoke') {
+    throw new UsageError(action ? `Unknown keys command: ${action}` : 'keys needs create, list or revoke');
+  }
+  if (action === 'create' && !options.user) {
+    throw new UsageError('keys create needs --user <id>');
+  }
+  if (action === 'revoke' && !keyOrId) {
+    throw new UsageError('keys revoke needs the key or its id');
+  }
+
+  const { createKey, listKeys, revokeKey } = await import('./cli/keys.js');
+  if (action === 'create') return createKey(options.user!, options.name);
+  if (action === 'list') return listKeys(options.user);
+  return revokeKey(keyOrId);
+}
+
+async function runBackfillEmbeddings(options: Options): Promise<boolean> {
+  const batchSize = parseBatchSize(options['batch-size']);
+  const dryRun = options['dry-run'] ?? false;
+  const { backfillEmbeddings } = await import('./services/embeddingBackfill.js');
+
+  const summary = await backfillEmbeddings({
+    userId: options.user,
+    batchSize,
+    dryRun,
+    onProgress: progress => {
+      if (!dryRun) console.error(`Checked ${progress.stale} memories: ${progress.embedded} embedded, ${progress.failed} failed`);
+    },
+  });
+
+  const model = `${summary.provider}/${summary.model} (${summary.dimensions} dimensions)`;
+  if (dryRun) {
+    console.log(`${summary.stale} memories need embedding with ${model}`);
+    return true;
+  }
+
+  console.log(`Embedded ${summary.embedded} of ${summary.stale} memories with ${model}`);
+  if (summary.failed > 0) {
+    console.log(`${summary.failed} failed; run the backfill again to retry them`);
+  }
+  return summary.failed === 0;
+}
+
+/**
+ * Run an operator command; false when it finished but did not fully succeed
+ */
+async function runAdminCommand(command: string, args: string[], options: Options): Promise<boolean> {
+  switch (command) {
+    case 'migrate': {
+      const { migrate } = await import('./cli/migrate.js');
+      await migrate({ dir: options.dir, dryRun: options['dry-run'] });
+      return true;
+    }
+    case 'keys':
+      await runKeys(args, options);
+      return true;
+    case 'backfill-embeddings':
+      return runBackfillEmbeddings(options);
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+async function main(): Promise<void> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      allowPositionals: true,
+      options: {
+        user: { type: 'string' },
+        name: { type: 'string' },
+        dir: { type: 'string' },
+        'batch-size': { type: 'string' },
+        'dry-run': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error: any) {
+    throw new UsageError(error.message);
+  }
+
+  const { values, positionals: [command, ...args] } = parsed;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const { logger } = await import('./utils/logger.js');
+
+  if (command === 'serve' || command === 'mcp') {
+    if (command === 'mcp') logger.useStderr();
+    const { runServer } = await import('./server.js');
+    // Keeps running until the server shuts down
+    await runServer(command === 'serve' ? 'http' : 'stdio');
+    return;
+  }
+
+  logger.useStderr();
+  const succeeded = await runAdminCommand(command, args, values);
+  // Storage clients and metrics keep timers alive; admin commands are done
+  process.exit(succeeded ? 0 : 1);
+}
+
+try {
+  await main();
+} catch (error: any) {
+  if (error instanceof UsageError) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+
+  console.error(`Error: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,68 @@
+/**
+ * `recallbricks keys create|list|revoke`
+ *
+ * API key management without SQL. A created key is printed once, alone on
+ * stdout so scripts can capture it; listings only show its first characters.
+ * Revoked keys stay listed and are rejected by the API on their next request.
+ */
+
+import { randomBytes } from 'crypto';
+import { store, ApiKeySummary } from '../storage/index.js';
+
+const KEY_PREFIX = 'rb_';
+
+export function generateApiKey(): string {
+  return `${KEY_PREFIX}${randomBytes(24).toString('hex')}`;
+}
+
+function describe(apiKey: ApiKeySummary): string {
+  return `${apiKey.id} (${apiKey.name ?? 'unnamed'}, user ${apiKey.user_id})`;
+}
+
+function table(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+}
+
+export async function createKey(userId: string, name?: string): Promise<void> {
+  const key = generateApiKey();
+  const apiKey = await store.apiKeys.create({ key, user_id: userId, name });
+
+  console.error(`Created API key ${describe(apiKey)}. Store it now; it will not be shown again.`);
+  console.log(key);
+}
+
+export async function listKeys(userId?: string): Promise<void> {
+  const apiKeys = await store.apiKeys.list(userId);
+  if (apiKeys.length === 0) {
+    console.log('No API keys');
+    return;
+  }
+
+  console.log(table([
+    ['ID', 'USER', 'NAME', 'KEY', 'STATUS', 'CREATED', 'LAST USED'],
+    ...apiKeys.map(apiKey => [
+      apiKey.id,
+      apiKey.user_id,
+      apiKey.name ?? '',
+      `${apiKey.key_prefix}…`,
+      apiKey.is_active ? 'active' : 'revoked',
+      apiKey.created_at,
+      apiKey.last_used_at ?? 'never',
+    ]),
+  ]));
+}
+
+/**
+ * Revoke a key given the key itself or its id. Revoking twice keeps the
+ * first revocation time.
+ */
+export async function revokeKey(keyOrId: string): Promise<void> {
+  const found = await store.apiKeys.findByKey(keyOrId);
+  const revoked = await store.apiKeys.revoke(found?.id ?? keyOrId);
+  if (!revoked) {
+    throw new Error(`No API key ${keyOrId}`);
+  }
+
+  console.log(`Revoked API key ${describe(revoked)}`);
+}
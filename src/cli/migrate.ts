@@ -0,0 +1,81 @@
+/**
+ * `recallbricks migrate`
+ *
+ * Applies the SQL files in migrations/ that have not been applied yet, in
+ * filename order, each in its own transaction, and records them in
+ * schema_migrations. Connects to Postgres directly with DATABASE_URL (the
+ * Supabase connection string); the API itself only uses the REST client.
+ *
+ * The migrations are written to be re-runnable, so a database migrated by
+ * hand before this command existed can simply be migrated again.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import path from 'path';
+import pg from 'pg';
+
+// Same relative path from src/cli and dist/cli
+const DEFAULT_MIGRATIONS_DIR = fileURLToPath(new URL('../../migrations/', import.meta.url));
+
+// Serializes concurrent runs (e.g. several instances migrating on deploy)
+const MIGRATION_LOCK_ID = 724_918_301;
+
+export interface MigrateOptions {
+  dir?: string;
+  // List pending migrations without applying them
+  dryRun?: boolean;
+}
+
+export async function migrate(options: MigrateOptions): Promise<void> {
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    throw new Error('DATABASE_URL is required (the Postgres connection string of the Supabase database)');
+  }
+
+  const dir = options.dir ? path.resolve(options.dir) : DEFAULT_MIGRATIONS_DIR;
+  const files = (await readdir(dir)).filter(file => file.endsWith('.sql')).sort();
+
+  const client = new pg.Client({ connectionString: databaseUrl });
+  await client.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        name text PRIMARY KEY,
+        applied_at timestamptz NOT NULL DEFAULT now()
+      )
+    `);
+
+    const { rows } = await client.query<{ name: string }>('SELECT name FROM schema_migrations');
+    const applied = new Set(rows.map(row => row.name));
+    const pending = files.filter(file => !applied.has(file));
+
+    if (pending.length === 0) {
+      console.log(`Database is up to date (${files.length} migrations applied)`);
+      return;
+    }
+
+    for (const file of pending) {
+      if (options.dryRun) {
+        console.log(`Pending ${file}`);
+        continue;
+      }
+
+      const sql = await readFile(path.join(dir, file), 'utf8');
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+        await client.query('COMMIT');
+      } catch (error: any) {
+        await client.query('ROLLBACK');
+        throw new Error(`${file} failed: ${error.message}`);
+      }
+      console.log(`Applied ${file}`);
+    }
+  } finally {
+    await client.end();
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Memory Deduplication Configuration
+ *
+ * Default handling of near-duplicates when memories are created
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * What POST /memories does when the new memory duplicates an existing one:
+ * - off: always insert
+ * - return: return the existing memory unchanged
+ * - merge: add the new tags and metadata to the existing memory
+ */
+export type DedupeMode = 'off' | 'return' | 'merge';
+
+export const DEDUPE_MODES: DedupeMode[] = ['off', 'return', 'merge'];
+
+export interface DedupeConfig {
+  mode: DedupeMode;
+  // Minimum cosine similarity for an embedding match to count as a duplicate
+  similarityThreshold: number;
+}
+
+function parseDedupeMode(value: string | undefined): DedupeMode {
+  const mode = (value || 'off').trim().toLowerCase();
+  if (DEDUPE_MODES.includes(mode as DedupeMode)) {
+    return mode as DedupeMode;
+  }
+
+  throw new Error(`[BOOT] Unknown MEMORY_DEDUPE_MODE: ${value} (expected off, return or merge)`);
+}
+
+/**
+ * Load configuration from environment variables with secure defaults
+ */
+export function loadDedupeConfig(): DedupeConfig {
+  return {
+    mode: parseDedupeMode(process.env.MEMORY_DEDUPE_MODE),
+    similarityThreshold: parseFloat(process.env.MEMORY_DEDUPE_THRESHOLD || '0.95'),
+  };
+}
+
+export const dedupeConfig = loadDedupeConfig();
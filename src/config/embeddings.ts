@@ -0,0 +1,75 @@
+/**
+ * Embedding Provider Configuration
+ *
+ * Selects and configures the provider used to embed memories and queries
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type EmbeddingProviderName = 'openai' | 'ollama' | 'local' | 'none';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  // Expected vector size; must match the memories.embedding column
+  dimensions: number;
+  requestTimeout: number;
+
+  // Provider-specific settings
+  openaiApiKey: string;
+  ollamaBaseUrl: string;
+}
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+  local: 'hashing-v1',
+  none: '',
+};
+
+const DEFAULT_DIMENSIONS: Record<EmbeddingProviderName, number> = {
+  openai: 1536,
+  ollama: 768,
+  local: 1536,
+  none: 0,
+};
+
+function parseProviderName(value: string | undefined, openaiApiKey: string): EmbeddingProviderName {
+  if (!value) {
+    // Backwards compatible default: OpenAI when a key is present, otherwise no embeddings
+    return openaiApiKey ? 'openai' : 'none';
+  }
+
+  const name = value.trim().toLowerCase();
+  if (name === 'openai' || name === 'ollama' || name === 'local' || name === 'none') {
+    return name;
+  }
+
+  throw new Error(`[BOOT] Unknown EMBEDDING_PROVIDER: ${value} (expected openai, ollama, local or none)`);
+}
+
+/**
+ * Load configuration from environment variables with secure defaults
+ */
+export function loadEmbeddingConfig(): EmbeddingConfig {
+  const openaiApiKey = process.env.OPENAI_API_KEY || '';
+  const provider = parseProviderName(process.env.EMBEDDING_PROVIDER, openaiApiKey);
+
+  if (provider === 'openai' && !openaiApiKey) {
+    console.warn('⚠️  EMBEDDING_PROVIDER=openai but OPENAI_API_KEY not set - embeddings will be disabled');
+  }
+
+  return {
+    provider: provider === 'openai' && !openaiApiKey ? 'none' : provider,
+    model: process.env.EMBEDDING_MODEL || DEFAULT_MODELS[provider],
+    dimensions: parseInt(process.env.EMBEDDING_DIMENSIONS || String(DEFAULT_DIMENSIONS[provider])),
+    requestTimeout: parseInt(process.env.EMBEDDING_TIMEOUT || '30000'),
+
+    openaiApiKey,
+    ollamaBaseUrl: (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/+$/, ''),
+  };
+}
+
+export const embeddingConfig = loadEmbeddingConfig();
@@ -0,0 +1,59 @@
+/**
+ * Background Job Queue Configuration
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export type JobQueueDriver = 'database' | 'local';
+
+export interface JobQueueConfig {
+  // database: jobs table of the storage backend; local: in-process only
+  driver: JobQueueDriver;
+  // Run a worker in this process (disable on API-only replicas)
+  workerEnabled: boolean;
+  pollInterval: number;
+  concurrency: number;
+  // How long a claimed job is reserved before another worker may take it
+  leaseMs: number;
+
+  // Retry Configuration
+  maxAttempts: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+
+  // Time allowed for running jobs to finish on shutdown
+  shutdownTimeout: number;
+}
+
+function parseDriver(value: string | undefined): JobQueueDriver {
+  const driver = (value || 'database').trim().toLowerCase();
+
+  if (driver !== 'database' && driver !== 'local') {
+    throw new Error(`[BOOT] Unknown JOB_QUEUE_DRIVER: ${value} (expected "database" or "local")`);
+  }
+
+  return driver;
+}
+
+/**
+ * Load configuration from environment variables with secure defaults
+ */
+export function loadJobQueueConfig(): JobQueueConfig {
+  return {
+    driver: parseDriver(process.env.JOB_QUEUE_DRIVER),
+    workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+    pollInterval: parseInt(process.env.JOB_POLL_INTERVAL || '2000'),
+    concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+    leaseMs: parseInt(process.env.JOB_LEASE_MS || '300000'),
+
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5'),
+    retryBaseDelay: parseInt(process.env.JOB_RETRY_BASE_DELAY || '5000'),
+    retryMaxDelay: parseInt(process.env.JOB_RETRY_MAX_DELAY || '600000'),
+
+    shutdownTimeout: parseInt(process.env.JOB_SHUTDOWN_TIMEOUT || '20000'),
+  };
+}
+
+export const jobQueueConfig = loadJobQueueConfig();
@@ -0,0 +1,38 @@
+/**
+ * MCP Server Configuration
+ *
+ * Credentials the MCP server acts with when the client does not send its own,
+ * how resource subscriptions are checked for changes, and how many HTTP
+ * sessions a user may hold
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface McpConfig {
+  // API key for clients that cannot pass one in their initialize request
+  // (e.g. Claude Desktop launching the stdio server)
+  apiKey: string | null;
+  // How often subscribed resources are re-read to detect changes (ms)
+  subscriptionPollInterval: number;
+  // Resources one session may subscribe to
+  maxSubscriptions: number;
+  // HTTP sessions one user may hold open; opening another closes the
+  // least recently used
+  maxSessionsPerUser: number;
+}
+
+/**
+ * Load configuration from environment variables with secure defaults
+ */
+export function loadMcpConfig(): McpConfig {
+  return {
+    apiKey: process.env.RECALLBRICKS_API_KEY || null,
+    subscriptionPollInterval: parseInt(process.env.MCP_SUBSCRIPTION_POLL_INTERVAL || '10000'),
+    maxSubscriptions: parseInt(process.env.MCP_MAX_SUBSCRIPTIONS || '100'),
+    maxSessionsPerUser: parseInt(process.env.MCP_MAX_SESSIONS_PER_USER || '10'),
+  };
+}
+
+export const mcpConfig = loadMcpConfig();
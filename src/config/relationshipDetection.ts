@@ -1,23 +1,50 @@
 /**
  * Relationship Detection Configuration
  *
- * Enterprise-grade configuration for Claude-powered relationship detection
+ * Enterprise-grade configuration for LLM-powered relationship detection
  */
 
+export type LLMProviderName = 'anthropic' | 'openai' | 'local';
+
+/**
+ * How candidate memories are picked for the detection prompt:
+ * - recent: the memories created just before it
+ * - similarity: nearest neighbours by embedding
+ * - hybrid: nearest neighbours re-ranked with a recency boost
+ */
+export type CandidateStrategy = 'recent' | 'similarity' | 'hybrid';
+
+const CANDIDATE_STRATEGIES: CandidateStrategy[] = ['recent', 'similarity', 'hybrid'];
+
 export interface RelationshipDetectionConfig {
-  // Claude API Configuration
-  claudeApiKey: string;
-  claudeModel: string;
+  // LLM Provider
+  llmProvider: LLMProviderName;
   maxTokens: number;
   temperature: number;
   requestTimeout: number;
 
+  // Claude API Configuration
+  claudeApiKey: string;
+  claudeModel: string;
+
+  // OpenAI-compatible API Configuration
+  openaiApiKey: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+
   // Detection Parameters
   recentMemoriesLimit: number;
   minStrength: number;
   maxRelationships: number;
   explanationMaxLength: number;
 
+  // Candidate Selection
+  candidateStrategy: CandidateStrategy;
+  candidateLimit: number;
+  candidateMinSimilarity: number;
+  recencyWeight: number;
+  recencyHalfLifeDays: number;
+
   // Retry Configuration
   maxRetries: number;
   retryBaseDelay: number;
@@ -28,36 +55,85 @@ export interface RelationshipDetectionConfig {
   circuitBreakerThreshold: number;
   circuitBreakerTimeout: number;
 
+  // Backfill
+  backfillBatchSize: number;
+  backfillDelay: number;
+
+  // Feedback Calibration
+  calibrationEnabled: boolean;
+  calibrationTargetPrecision: number;
+  calibrationMinFeedback: number;
+  calibrationWindow: number;
+  calibrationCacheTtl: number;
+
   // Feature Flags
   enabled: boolean;
   asyncExecution: boolean;
   storeInDatabase: boolean;
 }
 
+function parseProviderName(value: string | undefined): LLMProviderName {
+  const name = (value || 'anthropic').trim().toLowerCase();
+  if (name === 'anthropic' || name === 'openai' || name === 'local') {
+    return name;
+  }
+
+  throw new Error(`[BOOT] Unknown RELATIONSHIP_LLM_PROVIDER: ${value} (expected anthropic, openai or local)`);
+}
+
 /**
  * Load configuration from environment variables with secure defaults
  */
 export function loadRelationshipConfig(): RelationshipDetectionConfig {
+  const llmProvider = parseProviderName(process.env.RELATIONSHIP_LLM_PROVIDER);
   const apiKey = process.env.ANTHROPIC_API_KEY || '';
+  const openaiApiKey = process.env.RELATIONSHIP_OPENAI_API_KEY || process.env.OPENAI_API_KEY || '';
 
-  if (!apiKey) {
-    console.warn('⚠️  ANTHROPIC_API_KEY not set - relationship detection will be disabled');
+  const providerConfigured =
+    llmProvider === 'local' ||
+    (llmProvider === 'anthropic' && !!apiKey) ||
+    (llmProvider === 'openai' && !!openaiApiKey);
+
+  if (!providerConfigured) {
+    const keyName = llmProvider === 'anthropic' ? 'ANTHROPIC_API_KEY' : 'RELATIONSHIP_OPENAI_API_KEY';
+    console.warn(`⚠️  ${keyName} not set - relationship detection will be disabled`);
+  }
+
+  let candidateStrategy = (process.env.RELATIONSHIP_CANDIDATE_STRATEGY || 'similarity') as CandidateStrategy;
+  if (!CANDIDATE_STRATEGIES.includes(candidateStrategy)) {
+    console.warn(`⚠️  Unknown RELATIONSHIP_CANDIDATE_STRATEGY "${candidateStrategy}" - using "similarity"`);
+    candidateStrategy = 'similarity';
   }
 
   return {
-    // Claude API Configuration
-    claudeApiKey: apiKey,
-    claudeModel: process.env.CLAUDE_MODEL || 'claude-3-haiku-20240307',
+    // LLM Provider
+    llmProvider,
     maxTokens: parseInt(process.env.CLAUDE_MAX_TOKENS || '2048'),
     temperature: parseFloat(process.env.CLAUDE_TEMPERATURE || '0.3'),
     requestTimeout: parseInt(process.env.CLAUDE_TIMEOUT || '30000'),
 
+    // Claude API Configuration
+    claudeApiKey: apiKey,
+    claudeModel: process.env.CLAUDE_MODEL || 'claude-3-haiku-20240307',
+
+    // OpenAI-compatible API Configuration
+    openaiApiKey,
+    openaiBaseUrl: (process.env.RELATIONSHIP_OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+    openaiModel: process.env.RELATIONSHIP_OPENAI_MODEL || 'gpt-4o-mini',
+
     // Detection Parameters
     recentMemoriesLimit: parseInt(process.env.RELATIONSHIP_MEMORY_LIMIT || '50'),
     minStrength: parseFloat(process.env.RELATIONSHIP_MIN_STRENGTH || '0.6'),
     maxRelationships: parseInt(process.env.RELATIONSHIP_MAX_COUNT || '10'),
     explanationMaxLength: parseInt(process.env.RELATIONSHIP_EXPLANATION_MAX || '200'),
 
+    // Candidate Selection
+    candidateStrategy,
+    candidateLimit: parseInt(process.env.RELATIONSHIP_CANDIDATE_LIMIT || '20'),
+    candidateMinSimilarity: parseFloat(process.env.RELATIONSHIP_CANDIDATE_MIN_SIMILARITY || '0.3'),
+    recencyWeight: parseFloat(process.env.RELATIONSHIP_RECENCY_WEIGHT || '0.3'),
+    recencyHalfLifeDays: parseFloat(process.env.RELATIONSHIP_RECENCY_HALF_LIFE_DAYS || '30'),
+
     // Retry Configuration
     maxRetries: parseInt(process.env.RELATIONSHIP_MAX_RETRIES || '3'),
     retryBaseDelay: parseInt(process.env.RELATIONSHIP_RETRY_BASE_DELAY || '1000'),
@@ -68,8 +144,19 @@ export function loadRelationshipConfig(): RelationshipDetectionConfig {
     circuitBreakerThreshold: parseInt(process.env.RELATIONSHIP_CB_THRESHOLD || '5'),
     circuitBreakerTimeout: parseInt(process.env.RELATIONSHIP_CB_TIMEOUT || '60000'),
 
+    // Backfill
+    backfillBatchSize: parseInt(process.env.RELATIONSHIP_BACKFILL_BATCH_SIZE || '20'),
+    backfillDelay: parseInt(process.env.RELATIONSHIP_BACKFILL_DELAY || '500'),
+
+    // Feedback Calibration
+    calibrationEnabled: process.env.RELATIONSHIP_CALIBRATION_ENABLED !== 'false',
+    calibrationTargetPrecision: parseFloat(process.env.RELATIONSHIP_CALIBRATION_TARGET_PRECISION || '0.8'),
+    calibrationMinFeedback: parseInt(process.env.RELATIONSHIP_CALIBRATION_MIN_FEEDBACK || '20'),
+    calibrationWindow: parseInt(process.env.RELATIONSHIP_CALIBRATION_WINDOW || '500'),
+    calibrationCacheTtl: parseInt(process.env.RELATIONSHIP_CALIBRATION_CACHE_TTL || '300000'),
+
     // Feature Flags
-    enabled: process.env.RELATIONSHIP_DETECTION_ENABLED !== 'false' && !!apiKey,
+    enabled: process.env.RELATIONSHIP_DETECTION_ENABLED !== 'false' && providerConfigured,
     asyncExecution: process.env.RELATIONSHIP_ASYNC !== 'false',
     storeInDatabase: process.env.RELATIONSHIP_STORE_DB !== 'false',
   };
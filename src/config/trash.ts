@@ -0,0 +1,31 @@
+/**
+ * Memory Trash Configuration
+ *
+ * How long deleted memories stay restorable before they are purged
+ */
+
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface TrashConfig {
+  // Days a deleted memory stays in the trash; 0 keeps it until deleted permanently
+  retentionDays: number;
+  // How often expired memories are purged (on processes running the job worker)
+  purgeInterval: number;
+  // Memories deleted per purge query
+  purgeBatchSize: number;
+}
+
+/**
+ * Load configuration from environment variables with secure defaults
+ */
+export function loadTrashConfig(): TrashConfig {
+  return {
+    retentionDays: parseFloat(process.env.MEMORY_TRASH_RETENTION_DAYS || '30'),
+    purgeInterval: parseInt(process.env.MEMORY_TRASH_PURGE_INTERVAL || '3600000'),
+    purgeBatchSize: parseInt(process.env.MEMORY_TRASH_PURGE_BATCH_SIZE || '500'),
+  };
+}
+
+export const trashConfig = loadTrashConfig();
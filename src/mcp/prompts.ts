@@ -0,0 +1,105 @@
+/**
+ * MCP Prompts
+ *
+ * Prompt templates that fill themselves from the user's memories: the same
+ * context recall as GET /api/v1/memories/context, or a project's memories
+ * as an embedded resource.
+ */
+
+import { recallContext, embeddingUnavailableMessage } from '../services/memories.js';
+import { readResource, resourceUri } from './resources.js';
+import { Errors } from '../utils/errors.js';
+
+type PromptArgs = Record<string, string | undefined>;
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+}
+
+export interface McpPrompt {
+  name: string;
+  description: string;
+  arguments: Array<{ name: string; description: string; required?: boolean }>;
+  build: (userId: string, args: PromptArgs) => Promise<{ description: string; messages: PromptMessage[] }>;
+}
+
+const DEFAULT_CONTEXT_LIMIT = 10;
+const MAX_CONTEXT_LIMIT = 50;
+
+function requireArgument(args: PromptArgs, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw Errors.validationError(`${name} is required`, { field: name });
+  }
+  return value;
+}
+
+function parseLimit(value: string | undefined): number {
+  if (value === undefined) return DEFAULT_CONTEXT_LIMIT;
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CONTEXT_LIMIT) {
+    throw Errors.validationError(`limit must be an integer between 1 and ${MAX_CONTEXT_LIMIT}`, { field: 'limit' });
+  }
+  return limit;
+}
+
+export const prompts: McpPrompt[] = [
+  {
+    name: 'recall_context',
+    description: 'Start a task with the memories most relevant to it',
+    arguments: [
+      { name: 'task', description: 'What you are about to work on', required: true },
+      { name: 'limit', description: `Memories to include (default ${DEFAULT_CONTEXT_LIMIT})` },
+    ],
+    build: async (userId, args) => {
+      const task = requireArgument(args, 'task');
+      const context = await recallContext(userId, task, parseLimit(args.limit));
+      if (!context) {
+        throw Errors.serviceUnavailable(embeddingUnavailableMessage());
+      }
+
+      const remembered = context.length > 0
+        ? `Here is what I remember that may be relevant:\n\n${context.map(text => `- ${text}`).join('\n')}`
+        : 'None of my stored memories look relevant to this.';
+
+      return {
+        description: `Context for: ${task}`,
+        messages: [
+          {
+            role: 'user',
+            content: { type: 'text', text: `${remembered}\n\nTask: ${task}` },
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: 'project_briefing',
+    description: 'Summarize what is known about a project from its memories',
+    arguments: [{ name: 'project_id', description: 'The project to summarize', required: true }],
+    build: async (userId, args) => {
+      const projectId = requireArgument(args, 'project_id');
+      const contents = await readResource(userId, resourceUri('project', projectId));
+
+      return {
+        description: `Briefing for project ${projectId}`,
+        messages: [
+          { role: 'user', content: { type: 'resource', resource: contents } },
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text:
+                `These are my memories for project ${projectId}. Summarize the current state of the project: ` +
+                'decisions made, facts to keep in mind, open questions, and any memories that contradict each other.',
+            },
+          },
+        ],
+      };
+    },
+  },
+];
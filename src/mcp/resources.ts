@@ -0,0 +1,197 @@
+/**
+ * MCP Resources
+ *
+ * The user's memories, projects and relationship graphs as MCP resources:
+ *
+ *   recallbricks://memory/{id}    a memory with its relationships
+ *   recallbricks://project/{id}   a project's most recently updated memories
+ *   recallbricks://graph/{id}     the relationship graph around a memory
+ *
+ * Listing returns every project, then memories page by page (most recently
+ * updated first); graphs are only reachable through their template.
+ */
+
+import { store, ListCursor, MemoryRecord, listCursorFor } from '../storage/index.js';
+import { buildRelationshipGraph } from '../services/relationshipGraph.js';
+import { encodeCursor, decodeCursor } from '../utils/pagination.js';
+import { Errors } from '../utils/errors.js';
+
+const URI_SCHEME = 'recallbricks://';
+const MIME_TYPE = 'application/json';
+
+export type ResourceKind = 'memory' | 'project' | 'graph';
+
+const RESOURCE_KINDS: ResourceKind[] = ['memory', 'project', 'graph'];
+
+// Memories per resources/list page
+const LIST_PAGE_SIZE = 50;
+// Memories included when reading a project
+const PROJECT_MEMORY_LIMIT = 100;
+// Relationships included when reading a memory
+const MEMORY_RELATIONSHIP_LIMIT = 50;
+const GRAPH_DEPTH = 2;
+const GRAPH_MIN_STRENGTH = 0.6;
+const NAME_LENGTH = 80;
+
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export const resourceTemplates = [
+  {
+    uriTemplate: `${URI_SCHEME}memory/{id}`,
+    name: 'memory',
+    description: 'A memory with its relationships to other memories',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}project/{id}`,
+    name: 'project',
+    description: `The ${PROJECT_MEMORY_LIMIT} most recently updated memories in a project`,
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: `${URI_SCHEME}graph/{id}`,
+    name: 'graph',
+    description: `Memories within ${GRAPH_DEPTH} hops of a memory, as nodes and edges`,
+    mimeType: MIME_TYPE,
+  },
+];
+
+export function resourceUri(kind: ResourceKind, id: string): string {
+  return `${URI_SCHEME}${kind}/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Split a recallbricks:// URI into its kind and id; null for any other URI
+ */
+export function parseResourceUri(uri: string): { kind: ResourceKind; id: string } | null {
+  if (!uri.startsWith(URI_SCHEME)) return null;
+
+  const [kind, id, ...rest] = uri.slice(URI_SCHEME.length).split('/');
+  if (!RESOURCE_KINDS.includes(kind as ResourceKind) || !id || rest.length > 0) return null;
+
+  try {
+    return { kind: kind as ResourceKind, id: decodeURIComponent(id) };
+  } catch {
+    return null;
+  }
+}
+
+function memoryName(memory: MemoryRecord): string {
+  const text = memory.text.replace(/\s+/g, ' ').trim();
+  return text.length > NAME_LENGTH ? `${text.slice(0, NAME_LENGTH - 1)}…` : text;
+}
+
+function withoutEmbedding({ embedding, ...memory }: MemoryRecord) {
+  return memory;
+}
+
+/**
+ * One page of the user's resources; projects come with the first page
+ */
+export async function listResources(
+  userId: string,
+  cursor?: string
+): Promise<{ resources: ResourceEntry[]; nextCursor?: string }> {
+  const after = cursor ? decodeCursor<ListCursor & Record<string, unknown>>(cursor, ['value', 'id']) : undefined;
+  if (after === null) {
+    throw Errors.validationError('Invalid cursor', { field: 'cursor' });
+  }
+
+  const resources: ResourceEntry[] = [];
+
+  if (!after) {
+    for (const project of await store.memories.projectStats(userId)) {
+      resources.push({
+        uri: resourceUri('project', project.project_id),
+        name: `Project ${project.project_id}`,
+        description: `${project.memory_count} memories, last updated ${project.last_updated_at}`,
+        mimeType: MIME_TYPE,
+      });
+    }
+  }
+
+  const page = await store.memories.listPage(userId, {
+    sort: 'updated',
+    order: 'desc',
+    limit: LIST_PAGE_SIZE,
+    after,
+  });
+
+  for (const memory of page.memories) {
+    resources.push({
+      uri: resourceUri('memory', memory.id),
+      name: memoryName(memory),
+      description: `Memory in project ${memory.project_id}${memory.tags?.length ? ` tagged ${memory.tags.join(', ')}` : ''}`,
+      mimeType: MIME_TYPE,
+    });
+  }
+
+  const last = page.memories[page.memories.length - 1];
+  return {
+    resources,
+    nextCursor: page.hasMore && last ? encodeCursor({ ...listCursorFor(last, 'updated') }) : undefined,
+  };
+}
+
+async function readValue(userId: string, kind: ResourceKind, id: string): Promise<unknown> {
+  if (kind === 'project') {
+    const page = await store.memories.listPage(userId, {
+      projectId: id,
+      sort: 'updated',
+      order: 'desc',
+      limit: PROJECT_MEMORY_LIMIT,
+      count: 'exact',
+    });
+    if (page.memories.length === 0) {
+      throw Errors.resourceNotFound('Project', id);
+    }
+
+    return {
+      project_id: id,
+      memory_count: page.total,
+      memories: page.memories.map(withoutEmbedding),
+      has_more: page.hasMore,
+    };
+  }
+
+  const memory = await store.memories.getById(userId, id);
+  if (!memory) {
+    throw Errors.resourceNotFound('Memory', id);
+  }
+
+  if (kind === 'graph') {
+    const { nodes, edges, depth } = await buildRelationshipGraph(memory, {
+      depth: GRAPH_DEPTH,
+      minStrength: GRAPH_MIN_STRENGTH,
+      direction: 'both',
+    });
+    return { root_memory_id: memory.id, depth, min_strength: GRAPH_MIN_STRENGTH, nodes, edges };
+  }
+
+  const relationships = await store.relationships.listForMemory(memory.id, { limit: MEMORY_RELATIONSHIP_LIMIT });
+  return { memory: withoutEmbedding(memory), relationships };
+}
+
+/**
+ * The JSON contents of a recallbricks:// resource owned by the user
+ */
+export async function readResource(userId: string, uri: string): Promise<ResourceContents> {
+  const parsed = parseResourceUri(uri);
+  if (!parsed) {
+    throw Errors.resourceNotFound('Resource', uri);
+  }
+
+  const value = await readValue(userId, parsed.kind, parsed.id);
+  return { uri, mimeType: MIME_TYPE, text: JSON.stringify(value) };
+}
@@ -0,0 +1,205 @@
+/**
+ * MCP Server
+ *
+ * Model Context Protocol server (official SDK) exposing the memory tools in
+ * ./tools.ts, the resources in ./resources.ts (with subscriptions) and the
+ * prompts in ./prompts.ts. Tool results are JSON text; failures are returned
+ * as tool errors carrying the same error code and message as the REST API.
+ * Resource and prompt failures are JSON-RPC errors.
+ *
+ * Over HTTP (../routes/mcp.ts) the API's middleware authenticates every
+ * request and the session acts for the user who opened it. Over stdio every
+ * request but listing tools and prompts is authenticated with an API key,
+ * looked up like the X-API-Key header: the key the client sent in its
+ * initialize capabilities (experimental.recallbricks.apiKey), otherwise
+ * RECALLBRICKS_API_KEY. The key is checked on each request, so revoking it
+ * ends the session's access.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode as McpErrorCode,
+  type CallToolRequest,
+  type CallToolResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { tools } from './tools.js';
+import { listResources, readResource, resourceTemplates } from './resources.js';
+import { prompts } from './prompts.js';
+import { ResourceSubscriptions } from './subscriptions.js';
+import { verifyApiKey } from '../middleware/auth.js';
+import { mcpConfig } from '../config/mcp.js';
+import { APIError, Errors } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+function jsonResult(value: unknown, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(value) }],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+// JSON-RPC error code for unknown resources (MCP specification)
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * Convert a failure outside a tool call into a JSON-RPC error
+ */
+function toMcpError(error: any, context: string): McpError {
+  if (error instanceof McpError) {
+    return error;
+  }
+
+  if (error instanceof APIError) {
+    const code = error.statusCode === 404
+      ? RESOURCE_NOT_FOUND
+      : error.statusCode < 500 ? McpErrorCode.InvalidParams : McpErrorCode.InternalError;
+    return new McpError(code, error.message, { code: error.code, details: error.details });
+  }
+
+  logger.error(`MCP ${context} failed`, { error: error.message });
+  return new McpError(McpErrorCode.InternalError, error?.message ?? String(error));
+}
+
+/**
+ * The API key sent by the client in its initialize request, if any
+ */
+function clientApiKey(server: Server): string | null {
+  const recallbricks = server.getClientCapabilities()?.experimental?.recallbricks as { apiKey?: unknown } | undefined;
+  return typeof recallbricks?.apiKey === 'string' && recallbricks.apiKey ? recallbricks.apiKey : null;
+}
+
+export interface McpServerOptions {
+  // User an HTTP session was opened by; client and configured keys are then never used
+  userId?: string;
+}
+
+/**
+ * The id of the user the session acts for
+ */
+async function authenticate(server: Server, options: McpServerOptions): Promise<string> {
+  if (options.userId) {
+    return options.userId;
+  }
+
+  const apiKey = clientApiKey(server) ?? mcpConfig.apiKey;
+  if (!apiKey) {
+    throw Errors.unauthorized(
+      'Authentication required. Set RECALLBRICKS_API_KEY or send capabilities.experimental.recallbricks.apiKey in initialize'
+    );
+  }
+  return verifyApiKey(apiKey);
+}
+
+export function createMcpServer(options: McpServerOptions = {}): Server {
+  const server = new Server(
+    { name: 'recallbricks-mcp', version: '2.0.0' },
+    { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {} } }
+  );
+
+  const subscriptions = new ResourceSubscriptions(server, () => authenticate(server, options));
+  server.onclose = () => subscriptions.close();
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema as { type: 'object' },
+    })),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (req: CallToolRequest) => {
+    const { name } = req.params;
+    const args = (req.params.arguments ?? {}) as Record<string, any>;
+    const tool = tools.find(t => t.name === name);
+
+    if (!tool) {
+      return jsonResult({ error: 'UNKNOWN_TOOL', message: `Unknown tool: ${name}` }, true);
+    }
+
+    try {
+      const userId = await authenticate(server, options);
+      return jsonResult(await tool.handler(userId, args));
+    } catch (error: any) {
+      if (error instanceof APIError) {
+        return jsonResult({ error: error.code, message: error.message, details: error.details }, true);
+      }
+
+      logger.error('MCP tool failed', { tool: name, error: error.message });
+      return jsonResult({ error: 'INTERNAL_SERVER_ERROR', message: error?.message ?? String(error) }, true);
+    }
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async req => {
+    try {
+      return await listResources(await authenticate(server, options), req.params?.cursor);
+    } catch (error) {
+      throw toMcpError(error, 'resources/list');
+    }
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async req => {
+    try {
+      return { contents: [await readResource(await authenticate(server, options), req.params.uri)] };
+    } catch (error) {
+      throw toMcpError(error, 'resources/read');
+    }
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async req => {
+    try {
+      await subscriptions.subscribe(await authenticate(server, options), req.params.uri);
+      return {};
+    } catch (error) {
+      throw toMcpError(error, 'resources/subscribe');
+    }
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async req => {
+    subscriptions.unsubscribe(req.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: prompts.map(({ name, description, arguments: args }) => ({ name, description, arguments: args })),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async req => {
+    const prompt = prompts.find(p => p.name === req.params.name);
+    if (!prompt) {
+      throw new McpError(McpErrorCode.InvalidParams, `Unknown prompt: ${req.params.name}`);
+    }
+
+    try {
+      return await prompt.build(await authenticate(server, options), req.params.arguments ?? {});
+    } catch (error) {
+      throw toMcpError(error, 'prompts/get');
+    }
+  });
+
+  return server;
+}
+
+/**
+ * Serve MCP over stdin/stdout (Claude Desktop and other local clients)
+ */
+export async function startStdioMcpServer(): Promise<Server> {
+  const server = createMcpServer();
+  await server.connect(new StdioServerTransport());
+  logger.info('MCP server connected via stdio');
+  return server;
+}
@@ -0,0 +1,95 @@
+/**
+ * MCP Resource Subscriptions
+ *
+ * Subscribed resources are re-read every mcpConfig.subscriptionPollInterval
+ * and the client is sent notifications/resources/updated when their contents
+ * change (or they disappear). Polling the store rather than listening for
+ * writes also catches changes made by other processes and the REST API.
+ */
+
+import { createHash } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { readResource } from './resources.js';
+import { mcpConfig } from '../config/mcp.js';
+import { APIError, Errors } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+// Fingerprint of a resource that can no longer be read
+const MISSING = 'missing';
+
+function fingerprint(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+export class ResourceSubscriptions {
+  private fingerprints = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private server: Server,
+    // Resolves the session's user on every poll, so a revoked key stops updates
+    private authenticate: () => Promise<string>
+  ) {}
+
+  async subscribe(userId: string, uri: string): Promise<void> {
+    if (!this.fingerprints.has(uri) && this.fingerprints.size >= mcpConfig.maxSubscriptions) {
+      throw Errors.validationError(`At most ${mcpConfig.maxSubscriptions} resources can be subscribed to`, {
+        max: mcpConfig.maxSubscriptions,
+      });
+    }
+
+    // Only resources the user can read can be subscribed to
+    const contents = await readResource(userId, uri);
+    this.fingerprints.set(uri, fingerprint(contents.text));
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.poll(), mcpConfig.subscriptionPollInterval);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.fingerprints.delete(uri);
+    if (this.fingerprints.size === 0) {
+      this.close();
+    }
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.checkForChanges();
+    } catch (error: any) {
+      logger.error('Failed to check MCP resource subscriptions', { error: error.message });
+    } finally {
+      if (this.timer && this.fingerprints.size > 0) {
+        this.timer = setTimeout(() => this.poll(), mcpConfig.subscriptionPollInterval);
+      }
+    }
+  }
+
+  private async checkForChanges(): Promise<void> {
+    const userId = await this.authenticate();
+
+    for (const [uri, previous] of [...this.fingerprints]) {
+      let current: string;
+      try {
+        current = fingerprint((await readResource(userId, uri)).text);
+      } catch (error: any) {
+        if (!(error instanceof APIError) || error.statusCode !== 404) throw error;
+        current = MISSING;
+      }
+
+      // Skip resources unsubscribed while reading
+      if (current === previous || !this.fingerprints.has(uri)) continue;
+
+      this.fingerprints.set(uri, current);
+      await this.server.sendResourceUpdated({ uri });
+    }
+  }
+}
@@ -0,0 +1,465 @@
+/**
+ * MCP Tools
+ *
+ * The memory operations exposed to MCP clients. Each tool calls the same
+ * services as the matching HTTP route, so a memory created or searched over
+ * MCP behaves exactly as one created or searched over the REST API. Handlers
+ * run for the user the session authenticated as and only see that user's
+ * memories.
+ */
+
+import {
+  store,
+  MemoryRecord,
+  RELATIONSHIP_TYPES,
+  RelationshipDirection,
+} from '../storage/index.js';
+import { CreateMemoryRequest } from '../types/recallbricks.js';
+import {
+  createMemory,
+  embeddingUnavailableMessage,
+  recallContext,
+  updateMemory,
+  vectorSearch,
+} from '../services/memories.js';
+import { hybridSearch } from '../services/hybridSearch.js';
+import { buildRelationshipGraph, MAX_GRAPH_DEPTH } from '../services/relationshipGraph.js';
+import { runBulkOperation } from '../services/bulkOperations.js';
+import { purgeAt } from '../services/trash.js';
+import { assertMemoryFilters, checkMemoryInput } from '../middleware/validation.js';
+import { dedupeConfig, DedupeMode, DEDUPE_MODES } from '../config/dedupe.js';
+import { Errors } from '../utils/errors.js';
+
+type Args = Record<string, any>;
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  handler: (userId: string, args: Args) => Promise<unknown>;
+}
+
+const MAX_LIST_LIMIT = 100;
+const MAX_SEARCH_LIMIT = 50;
+
+const filterProperties = {
+  tags: { type: 'array', items: { type: 'string' }, description: 'Memories with all of these tags' },
+  source: { type: 'string' },
+  project_id: { type: 'string' },
+  created_after: { type: 'string', description: 'ISO 8601 date' },
+  created_before: { type: 'string', description: 'ISO 8601 date' },
+};
+
+const directionProperty = {
+  type: 'string',
+  enum: ['out', 'in', 'both'],
+  default: 'both',
+  description: 'out: relationships stored on the memory, in: relationships pointing at it (related_to, similar_to and contradicts are listed either way)',
+};
+
+function withoutEmbedding({ embedding, ...memory }: MemoryRecord) {
+  return memory;
+}
+
+function requireString(args: Args, field: string): string {
+  const value = args[field];
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw Errors.validationError(`${field} is required`, { field });
+  }
+  return value;
+}
+
+function optionalNumber(args: Args, field: string, min: number, max: number, fallback: number): number {
+  const value = args[field];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || isNaN(value) || value < min || value > max) {
+    throw Errors.validationError(`${field} must be a number between ${min} and ${max}`, { field });
+  }
+  return value;
+}
+
+function optionalDirection(args: Args): RelationshipDirection | 'both' {
+  const { direction = 'both' } = args;
+  if (!['out', 'in', 'both'].includes(direction)) {
+    throw Errors.validationError('direction must be one of: out, in, both', { field: 'direction' });
+  }
+  return direction;
+}
+
+function optionalStrings(args: Args, field: string): string[] | undefined {
+  const value = args[field];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string')) {
+    throw Errors.validationError(`${field} must be an array of strings`, { field });
+  }
+  return value;
+}
+
+function readFilters(args: Args) {
+  assertMemoryFilters(args, 'POST');
+  return {
+    tags: args.tags,
+    source: args.source,
+    projectId: args.project_id,
+    createdAfter: args.created_after,
+    createdBefore: args.created_before,
+  };
+}
+
+async function getOwnedMemory(userId: string, id: string) {
+  const memory = await store.memories.getById(userId, id);
+  if (!memory) {
+    throw Errors.resourceNotFound('Memory', id);
+  }
+  return memory;
+}
+
+export const tools: McpTool[] = [
+  {
+    name: 'ping',
+    description: 'Connectivity and authentication check for MCP server',
+    inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+    handler: async userId => ({ ok: true, mcp: 'up', user_id: userId }),
+  },
+  {
+    name: 'supabase_health',
+    description: 'Health check against the configured storage backend',
+    inputSchema: { type: 'object', properties: {}, additionalProperties: false },
+    handler: async () => {
+      const health = await store.checkHealth();
+      return {
+        ok: health.connected,
+        error: health.error ?? null,
+        backend: store.name,
+        latency: health.latency ?? null,
+      };
+    },
+  },
+  {
+    name: 'create_memory',
+    description:
+      'Save a memory. Key information is extracted from the text, it is embedded for semantic search and ' +
+      'relationships to existing memories are detected in the background.',
+    inputSchema: {
+      type: 'object',
+      required: ['text'],
+      properties: {
+        text: { type: 'string' },
+        source: { type: 'string', enum: ['claude', 'chatgpt', 'cursor', 'manual', 'api'] },
+        project_id: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        metadata: { type: 'object' },
+        dedupe: {
+          type: 'string',
+          enum: DEDUPE_MODES,
+          description: 'return or merge into an existing duplicate in the same project instead of inserting',
+        },
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const { dedupe = dedupeConfig.mode, ...request } = args;
+
+      const invalid = checkMemoryInput(request);
+      if (invalid) throw invalid;
+
+      if (!DEDUPE_MODES.includes(dedupe)) {
+        throw Errors.validationError(`dedupe must be one of: ${DEDUPE_MODES.join(', ')}`, { field: 'dedupe' });
+      }
+
+      const { memory, duplicate } = await createMemory(userId, request as CreateMemoryRequest, dedupe as DedupeMode);
+
+      return {
+        memory: withoutEmbedding(memory),
+        created: !duplicate,
+        dedupe: duplicate && {
+          match: duplicate.match,
+          similarity: duplicate.similarity,
+          action: dedupe === 'merge' ? 'merged' : 'returned',
+        },
+      };
+    },
+  },
+  {
+    name: 'get_memory',
+    description: 'Fetch one memory by id',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: { id: { type: 'string', description: 'UUID' } },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => withoutEmbedding(await getOwnedMemory(userId, requireString(args, 'id'))),
+  },
+  {
+    name: 'list_memories',
+    description: 'List the most recent memories, optionally filtered',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', minimum: 1, maximum: MAX_LIST_LIMIT, default: 20 },
+        ...filterProperties,
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const page = await store.memories.listPage(userId, {
+        ...readFilters(args),
+        sort: 'created',
+        order: 'desc',
+        limit: optionalNumber(args, 'limit', 1, MAX_LIST_LIMIT, 20),
+      });
+
+      const memories = page.memories.map(withoutEmbedding);
+      return { memories, count: memories.length, has_more: page.hasMore };
+    },
+  },
+  {
+    name: 'search_memories',
+    description:
+      'Semantic search over memories, most similar first. mode "hybrid" also ranks by keyword matches, ' +
+      'which helps with names, identifiers and exact phrases.',
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string' },
+        mode: { type: 'string', enum: ['vector', 'hybrid'], default: 'vector' },
+        limit: { type: 'number', minimum: 1, maximum: MAX_SEARCH_LIMIT, default: 10 },
+        threshold: { type: 'number', minimum: 0, maximum: 1, description: 'Minimum similarity' },
+        ...filterProperties,
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const query = requireString(args, 'query');
+      const limit = optionalNumber(args, 'limit', 1, MAX_SEARCH_LIMIT, 10);
+      const threshold = args.threshold === undefined ? undefined : optionalNumber(args, 'threshold', 0, 1, 0);
+      const filters = readFilters(args);
+
+      if (args.mode === 'hybrid') {
+        const result = await hybridSearch(userId, query, threshold === undefined ? { limit } : { limit, threshold }, filters);
+        return {
+          memories: result.results,
+          count: result.results.length,
+          mode: 'hybrid',
+          vector_available: result.vectorAvailable,
+          keywords: result.keywords,
+        };
+      }
+
+      const result = await vectorSearch(userId, query, { ...filters, limit, threshold });
+      if (!result) {
+        throw Errors.serviceUnavailable(embeddingUnavailableMessage());
+      }
+
+      return {
+        memories: result.memories,
+        count: result.memories.length,
+        mode: 'vector',
+        threshold: result.threshold,
+      };
+    },
+  },
+  {
+    name: 'recall_context',
+    description: 'The text of the memories most relevant to a query, ready to add to a conversation',
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string' },
+        limit: { type: 'number', minimum: 1, maximum: MAX_SEARCH_LIMIT, default: 10 },
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const context = await recallContext(
+        userId,
+        requireString(args, 'query'),
+        optionalNumber(args, 'limit', 1, MAX_SEARCH_LIMIT, 10)
+      );
+      if (!context) {
+        throw Errors.serviceUnavailable(embeddingUnavailableMessage());
+      }
+
+      return { context, count: context.length };
+    },
+  },
+  {
+    name: 'get_relationships',
+    description: 'Relationships between a memory and other memories, strongest first',
+    inputSchema: {
+      type: 'object',
+      required: ['memory_id'],
+      properties: {
+        memory_id: { type: 'string' },
+        type: { type: 'string', enum: RELATIONSHIP_TYPES },
+        min_strength: { type: 'number', minimum: 0, maximum: 1 },
+        direction: directionProperty,
+        limit: { type: 'number', minimum: 1, maximum: 100, default: 50 },
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const memory = await getOwnedMemory(userId, requireString(args, 'memory_id'));
+      const direction = optionalDirection(args);
+
+      if (args.type !== undefined && !RELATIONSHIP_TYPES.includes(args.type)) {
+        throw Errors.validationError(`type must be one of: ${RELATIONSHIP_TYPES.join(', ')}`, { field: 'type' });
+      }
+
+      const relationships = await store.relationships.listForMemory(memory.id, {
+        type: args.type,
+        minStrength: args.min_strength === undefined ? undefined : optionalNumber(args, 'min_strength', 0, 1, 0),
+        limit: optionalNumber(args, 'limit', 1, 100, 50),
+        direction,
+      });
+
+      return { memory_id: memory.id, direction, relationships, count: relationships.length };
+    },
+  },
+  {
+    name: 'get_relationship_graph',
+    description: 'The memories connected to a memory within a few hops, as nodes and edges',
+    inputSchema: {
+      type: 'object',
+      required: ['memory_id'],
+      properties: {
+        memory_id: { type: 'string' },
+        depth: { type: 'number', minimum: 1, maximum: MAX_GRAPH_DEPTH, default: 1 },
+        min_strength: { type: 'number', minimum: 0, maximum: 1, default: 0.6 },
+        direction: directionProperty,
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const memory = await getOwnedMemory(userId, requireString(args, 'memory_id'));
+      const direction = optionalDirection(args);
+
+      const { nodes, edges, depth } = await buildRelationshipGraph(memory, {
+        depth: optionalNumber(args, 'depth', 1, MAX_GRAPH_DEPTH, 1),
+        minStrength: optionalNumber(args, 'min_strength', 0, 1, 0.6),
+        direction,
+      });
+
+      return {
+        root_memory_id: memory.id,
+        graph: { nodes, edges },
+        stats: { node_count: nodes.length, edge_count: edges.length, depth, direction },
+      };
+    },
+  },
+  {
+    name: 'update_memory',
+    description:
+      'Change a memory\'s text, tags, metadata or project. The text is re-embedded and the previous state ' +
+      'is kept as a version.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string' },
+        text: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Replaces the tags' },
+        metadata: { type: 'object', description: 'Replaces the metadata' },
+        project_id: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const existing = await getOwnedMemory(userId, requireString(args, 'id'));
+      const { text, metadata, project_id } = args;
+
+      if (text !== undefined) {
+        const invalid = checkMemoryInput({ text });
+        if (invalid) throw invalid;
+      }
+      if (metadata !== undefined && (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata))) {
+        throw Errors.validationError('metadata must be an object', { field: 'metadata' });
+      }
+      if (project_id !== undefined && typeof project_id !== 'string') {
+        throw Errors.validationError('project_id must be a string', { field: 'project_id' });
+      }
+
+      const updated = await updateMemory(userId, existing, {
+        text,
+        tags: optionalStrings(args, 'tags'),
+        metadata,
+        project_id,
+      });
+      if (!updated) {
+        throw Errors.resourceNotFound('Memory', existing.id);
+      }
+
+      return withoutEmbedding(updated);
+    },
+  },
+  {
+    name: 'delete_memory',
+    description: 'Move a memory to the trash, where it can be restored until it is purged. permanent deletes it for good.',
+    inputSchema: {
+      type: 'object',
+      required: ['id'],
+      properties: {
+        id: { type: 'string' },
+        permanent: { type: 'boolean', default: false },
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const id = requireString(args, 'id');
+      const permanent = args.permanent === true;
+
+      const deleted = permanent
+        ? await store.memories.delete(userId, id)
+        : await store.memories.trash(userId, id);
+      if (!deleted) {
+        throw Errors.resourceNotFound('Memory', id);
+      }
+
+      return permanent
+        ? { id, deleted: 'permanently' }
+        : { id, deleted: 'trash', purge_at: purgeAt(new Date().toISOString()) };
+    },
+  },
+  {
+    name: 'tag_memories',
+    description: 'Add tags to, or remove tags from, one or more memories',
+    inputSchema: {
+      type: 'object',
+      required: ['ids'],
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        add: { type: 'array', items: { type: 'string' } },
+        remove: { type: 'array', items: { type: 'string' } },
+      },
+      additionalProperties: false,
+    },
+    handler: async (userId, args) => {
+      const ids = optionalStrings(args, 'ids');
+      const add = optionalStrings(args, 'add') ?? [];
+      const remove = optionalStrings(args, 'remove') ?? [];
+
+      if (!ids?.length) {
+        throw Errors.validationError('ids must be a non-empty array of memory ids', { field: 'ids' });
+      }
+      if (!add.length && !remove.length) {
+        throw Errors.validationError('add or remove must list at least one tag', { field: 'add' });
+      }
+
+      const added = add.length
+        ? await runBulkOperation(userId, { ids }, { type: 'add_tags', tags: add }, false)
+        : null;
+      const removed = remove.length
+        ? await runBulkOperation(userId, { ids }, { type: 'remove_tags', tags: remove }, false)
+        : null;
+
+      return {
+        matched: (added ?? removed)!.matched,
+        added: added?.affected ?? 0,
+        removed: removed?.affected ?? 0,
+      };
+    },
+  },
+];
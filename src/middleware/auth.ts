@@ -1,20 +1,74 @@
 import { Request, Response, NextFunction } from 'express';
-import { supabase } from '../config/supabase.js';
+import { store } from '../storage/index.js';
 import { Errors } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
+/**
+ * Resolve an API key to the id of the user it belongs to, as
+ * authenticateApiKey does for X-API-Key: the key must exist in the api_keys
+ * store and be active, and its last_used_at is updated. Throws 401 for
+ * unknown or inactive keys.
+ */
+export async function verifyApiKey(apiKey: string, requestId?: string): Promise<string> {
+  try {
+    const apiKeyData = await store.apiKeys.findByKey(apiKey);
+
+    if (!apiKeyData) {
+      logger.warn('Invalid API key attempt', {
+        requestId,
+        keyPrefix: apiKey.substring(0, 10) + '...',
+      });
+      throw Errors.unauthorized('Invalid API key');
+    }
+
+    if (!apiKeyData.is_active) {
+      logger.warn('Inactive API key used', {
+        requestId,
+        keyPrefix: apiKey.substring(0, 10) + '...',
+        userId: apiKeyData.user_id,
+      });
+      throw Errors.unauthorized('API key is inactive');
+    }
+
+    // Update last_used_at timestamp
+    await store.apiKeys.touch(apiKeyData.id).catch((touchError: any) => {
+      logger.warn('Failed to update API key last_used_at', {
+        requestId,
+        error: touchError.message,
+      });
+    });
+
+    return apiKeyData.user_id;
+  } catch (dbError: any) {
+    logger.error('API key validation error', {
+      requestId,
+      error: dbError.message,
+    });
+
+    // If it's already an Errors.unauthorized, rethrow it
+    if (dbError.statusCode === 401) {
+      throw dbError;
+    }
+
+    // Otherwise throw a generic database error
+    throw Errors.databaseError('Failed to validate API key', {
+      error: dbError.message,
+    });
+  }
+}
+
 /**
  * Dual Authentication Middleware
  * Supports both JWT Bearer tokens and API keys
  *
  * JWT Flow:
  * 1. Check Authorization: Bearer {token} header
- * 2. Validate with Supabase Auth getUser()
+ * 2. Validate with the storage backend's auth provider (Supabase Auth)
  * 3. Attach userId, userEmail, authMethod to request
  *
  * API Key Flow:
  * 1. Check X-API-Key header
- * 2. Query api_keys table in Supabase
+ * 2. Look up the key in the api_keys store
  * 3. Verify is_active = true
  * 4. Update last_used_at timestamp
  * 5. Attach userId, authMethod to request
@@ -37,13 +91,12 @@ export async function authenticateApiKey(
       });
 
       try {
-        // Validate JWT with Supabase Auth
-        const { data: { user }, error } = await supabase.auth.getUser(token);
+        // Validate JWT with the storage backend's auth provider
+        const user = await store.verifyAccessToken(token);
 
-        if (error || !user) {
+        if (!user) {
           logger.warn('Invalid or expired JWT token', {
             requestId: req.requestId,
-            error: error?.message,
           });
           throw Errors.unauthorized('Invalid or expired token');
         }
@@ -88,70 +141,24 @@ export async function authenticateApiKey(
       throw Errors.unauthorized('Authentication required. Provide either Authorization: Bearer {token} or X-API-Key header');
     }
 
-    // Query api_keys table in Supabase
-    try {
-      const { data: apiKeyData, error: apiKeyError } = await supabase
-        .from('api_keys')
-        .select('id, user_id, is_active')
-        .eq('key', apiKey)
-        .single();
+    const userId = await verifyApiKey(apiKey, req.requestId);
 
-      if (apiKeyError || !apiKeyData) {
-        logger.warn('Invalid API key attempt', {
-          requestId: req.requestId,
-          keyPrefix: apiKey.substring(0, 10) + '...',
-          error: apiKeyError?.message,
-        });
-        throw Errors.unauthorized('Invalid API key');
-      }
+    // Attach user info to request
+    req.userId = userId;
+    req.authMethod = 'api-key';
 
-      if (!apiKeyData.is_active) {
-        logger.warn('Inactive API key used', {
-          requestId: req.requestId,
-          keyPrefix: apiKey.substring(0, 10) + '...',
-          userId: apiKeyData.user_id,
-        });
-        throw Errors.unauthorized('API key is inactive');
-      }
+    // Create user object for backward compatibility
+    req.user = {
+      id: userId,
+      api_key: apiKey,
+    } as any;
 
-      // Update last_used_at timestamp
-      await supabase
-        .from('api_keys')
-        .update({ last_used_at: new Date().toISOString() })
-        .eq('id', apiKeyData.id);
-
-      // Attach user info to request
-      req.userId = apiKeyData.user_id;
-      req.authMethod = 'api-key';
-
-      // Create user object for backward compatibility
-      req.user = {
-        id: apiKeyData.user_id,
-        api_key: apiKey,
-      } as any;
-
-      logger.info('✓ API key auth successful for user: ' + apiKeyData.user_id, {
-        requestId: req.requestId,
-        userId: apiKeyData.user_id,
-      });
-
-      next();
-    } catch (dbError: any) {
-      logger.error('API key validation error', {
-        requestId: req.requestId,
-        error: dbError.message,
-      });
-
-      // If it's already an Errors.unauthorized, rethrow it
-      if (dbError.statusCode === 401) {
-        throw dbError;
-      }
+    logger.info('✓ API key auth successful for user: ' + userId, {
+      requestId: req.requestId,
+      userId,
+    });
 
-      // Otherwise throw a generic database error
-      throw Errors.databaseError('Failed to validate API key', {
-        error: dbError.message,
-      });
-    }
+    next();
   } catch (error: any) {
     // Pass error to error handler middleware
     next(error);
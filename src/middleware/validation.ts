@@ -5,42 +5,64 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { Errors } from '../utils/errors.js';
+import { APIError, Errors } from '../utils/errors.js';
+import { decodeCursor } from '../utils/pagination.js';
+import { BULK_ACTIONS, BulkActionType } from '../services/bulkOperations.js';
+import { SYSTEM_METADATA_KEYS } from '../services/memoryVersions.js';
 
 const MAX_TEXT_LENGTH = parseInt(process.env.MAX_MEMORY_TEXT_LENGTH || '10000');
 const MAX_QUERY_LENGTH = 500;
+export const MAX_LIST_LIMIT = 1000;
+export const MAX_BATCH_ITEMS = parseInt(process.env.MEMORY_BATCH_MAX_ITEMS || '500');
+const MAX_BULK_IDS = 10000;
 
-export function validateMemoryCreation(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  const { text } = req.body;
+/**
+ * Check a single CreateMemoryRequest body, returning the first problem found
+ */
+export function checkMemoryInput(body: any): APIError | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return Errors.validationError('Memory must be an object');
+  }
+
+  const { text } = body;
 
   if (!text) {
-    throw Errors.validationError('Text is required', { field: 'text' });
+    return Errors.validationError('Text is required', { field: 'text' });
   }
 
   if (typeof text !== 'string') {
-    throw Errors.validationError('Text must be a string', { field: 'text', type: typeof text });
+    return Errors.validationError('Text must be a string', { field: 'text', type: typeof text });
   }
 
   const trimmed = text.trim();
   if (trimmed.length === 0) {
-    throw Errors.validationError('Text cannot be empty', { field: 'text' });
+    return Errors.validationError('Text cannot be empty', { field: 'text' });
   }
 
   if (trimmed.length > MAX_TEXT_LENGTH) {
-    throw Errors.textTooLong(MAX_TEXT_LENGTH, trimmed.length);
+    return Errors.textTooLong(MAX_TEXT_LENGTH, trimmed.length);
   }
 
   // Validate optional fields
-  if (req.body.tags && !Array.isArray(req.body.tags)) {
-    throw Errors.validationError('Tags must be an array', { field: 'tags' });
+  if (body.tags && !Array.isArray(body.tags)) {
+    return Errors.validationError('Tags must be an array', { field: 'tags' });
   }
 
-  if (req.body.metadata && typeof req.body.metadata !== 'object') {
-    throw Errors.validationError('Metadata must be an object', { field: 'metadata' });
+  if (body.metadata && typeof body.metadata !== 'object') {
+    return Errors.validationError('Metadata must be an object', { field: 'metadata' });
+  }
+
+  return null;
+}
+
+export function validateMemoryCreation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const error = checkMemoryInput(req.body);
+  if (error) {
+    throw error;
   }
 
   next();
@@ -150,3 +172,251 @@ export function validateContextRequest(
 
   next();
 }
+
+/**
+ * Validate the attribute filters shared by search and listing
+ */
+export function assertMemoryFilters(params: Record<string, any>, method: string): void {
+  const { tags, source, project_id, created_after, created_before } = params;
+
+  // GET accepts comma-separated tags, POST a JSON array
+  if (tags !== undefined && !Array.isArray(tags) && (method !== 'GET' || typeof tags !== 'string')) {
+    throw Errors.validationError('Tags must be an array', { field: 'tags' });
+  }
+
+  for (const [field, value] of Object.entries({ source, project_id })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw Errors.validationError(`${field} must be a string`, { field, type: typeof value });
+    }
+  }
+
+  for (const [field, value] of Object.entries({ created_after, created_before })) {
+    if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+      throw Errors.validationError(`${field} must be an ISO 8601 date`, { field, value });
+    }
+  }
+
+  if (created_after && created_before && Date.parse(created_after) > Date.parse(created_before)) {
+    throw Errors.validationError('created_after must not be later than created_before', {
+      field: 'created_after',
+    });
+  }
+}
+
+export function validateSearchFilters(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const params = req.method === 'GET' ? req.query : req.body;
+  const { mode, limit, threshold, cursor } = params;
+
+  if (mode !== undefined && mode !== 'vector' && mode !== 'hybrid') {
+    throw Errors.validationError('Mode must be "vector" or "hybrid"', { field: 'mode', value: mode });
+  }
+
+  if (limit !== undefined) {
+    const numLimit = Number(limit);
+    if (!Number.isInteger(numLimit) || numLimit < 1 || numLimit > 100) {
+      throw Errors.validationError('Limit must be between 1 and 100', {
+        field: 'limit',
+        value: limit,
+      });
+    }
+  }
+
+  if (threshold !== undefined) {
+    const numThreshold = Number(threshold);
+    if (isNaN(numThreshold) || numThreshold < 0 || numThreshold > 1) {
+      throw Errors.validationError('Threshold must be between 0 and 1', {
+        field: 'threshold',
+        value: threshold,
+      });
+    }
+  }
+
+  assertMemoryFilters(params, req.method);
+
+  if (cursor !== undefined && (typeof cursor !== 'string' || !decodeCursor(cursor, ['similarity', 'id']))) {
+    throw Errors.validationError('Invalid cursor', { field: 'cursor' });
+  }
+
+  next();
+}
+
+const LIST_SORTS = ['created', 'updated', 'strength'];
+
+/**
+ * Validate listing parameters: filters, sort, order, limit, cursor and total
+ */
+export function validateListParams(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { limit, sort, order, total, cursor } = req.query;
+
+  if (limit !== undefined) {
+    const numLimit = Number(limit);
+    if (!Number.isInteger(numLimit) || numLimit < 1 || numLimit > MAX_LIST_LIMIT) {
+      throw Errors.validationError(`Limit must be between 1 and ${MAX_LIST_LIMIT}`, {
+        field: 'limit',
+        value: limit,
+      });
+    }
+  }
+
+  if (sort !== undefined && !LIST_SORTS.includes(sort as string)) {
+    throw Errors.validationError(`Sort must be one of: ${LIST_SORTS.join(', ')}`, { field: 'sort', value: sort });
+  }
+
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    throw Errors.validationError('Order must be "asc" or "desc"', { field: 'order', value: order });
+  }
+
+  if (total !== undefined && total !== 'exact' && total !== 'estimated') {
+    throw Errors.validationError('Total must be "exact" or "estimated"', { field: 'total', value: total });
+  }
+
+  assertMemoryFilters(req.query, req.method);
+
+  if (cursor !== undefined) {
+    const decoded = typeof cursor === 'string'
+      ? decodeCursor<{ sort: string; order: string; value: unknown; id: string }>(cursor, ['sort', 'order', 'value', 'id'])
+      : null;
+
+    if (!decoded) {
+      throw Errors.validationError('Invalid cursor', { field: 'cursor' });
+    }
+
+    // A cursor is only meaningful for the ordering that produced it
+    if (decoded.sort !== (sort ?? 'created') || decoded.order !== (order ?? 'desc')) {
+      throw Errors.validationError('Cursor does not match the requested sort and order', { field: 'cursor' });
+    }
+  }
+
+  next();
+}
+
+export function validateMemoryBatch(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { memories, extract } = req.body;
+
+  if (!Array.isArray(memories) || memories.length === 0) {
+    throw Errors.validationError('memories must be a non-empty array', { field: 'memories' });
+  }
+
+  if (memories.length > MAX_BATCH_ITEMS) {
+    throw Errors.validationError(`A batch may contain at most ${MAX_BATCH_ITEMS} memories`, {
+      field: 'memories',
+      max: MAX_BATCH_ITEMS,
+      actual: memories.length,
+    });
+  }
+
+  if (extract !== undefined && typeof extract !== 'boolean') {
+    throw Errors.validationError('extract must be a boolean', { field: 'extract' });
+  }
+
+  next();
+}
+
+const BULK_FILTER_FIELDS = ['ids', 'query', 'tags', 'source', 'project_id', 'created_after', 'created_before'];
+
+/**
+ * Validate POST /memories/bulk: a filter with at least one criterion, an
+ * action and an optional dry_run flag
+ */
+export function validateBulkOperation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { filter, action, dry_run } = req.body ?? {};
+
+  if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+    throw Errors.validationError('filter must be an object', { field: 'filter' });
+  }
+
+  // Refuse to touch every memory by accident
+  if (!BULK_FILTER_FIELDS.some(field => filter[field] !== undefined)) {
+    throw Errors.validationError(`filter needs at least one of: ${BULK_FILTER_FIELDS.join(', ')}`, {
+      field: 'filter',
+    });
+  }
+
+  const { ids, query } = filter;
+
+  if (ids !== undefined) {
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+      throw Errors.validationError('filter.ids must be an array of memory ids', { field: 'filter.ids' });
+    }
+
+    if (ids.length > MAX_BULK_IDS) {
+      throw Errors.validationError(`filter.ids may contain at most ${MAX_BULK_IDS} ids`, {
+        field: 'filter.ids',
+        max: MAX_BULK_IDS,
+        actual: ids.length,
+      });
+    }
+  }
+
+  if (query !== undefined && (typeof query !== 'string' || query.trim().length === 0 || query.length > MAX_QUERY_LENGTH)) {
+    throw Errors.validationError(`filter.query must be a non-empty string of at most ${MAX_QUERY_LENGTH} characters`, {
+      field: 'filter.query',
+    });
+  }
+
+  assertMemoryFilters(filter, 'POST');
+
+  if (!action || typeof action !== 'object' || !BULK_ACTIONS.includes(action.type)) {
+    throw Errors.validationError(`action.type must be one of: ${BULK_ACTIONS.join(', ')}`, { field: 'action.type' });
+  }
+
+  switch (action.type as BulkActionType) {
+    case 'add_tags':
+    case 'remove_tags':
+      if (
+        !Array.isArray(action.tags) ||
+        action.tags.length === 0 ||
+        !action.tags.every((tag: unknown) => typeof tag === 'string' && tag.trim().length > 0)
+      ) {
+        throw Errors.validationError('action.tags must be a non-empty array of tags', { field: 'action.tags' });
+      }
+      break;
+
+    case 'set_project':
+      if (typeof action.project_id !== 'string' || action.project_id.trim().length === 0) {
+        throw Errors.validationError('action.project_id must be a non-empty string', { field: 'action.project_id' });
+      }
+      break;
+
+    case 'set_metadata': {
+      const { metadata } = action;
+      if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata) || Object.keys(metadata).length === 0) {
+        throw Errors.validationError('action.metadata must be a non-empty object', { field: 'action.metadata' });
+      }
+
+      const reserved = Object.keys(metadata).filter(key => (SYSTEM_METADATA_KEYS as readonly string[]).includes(key));
+      if (reserved.length > 0) {
+        throw Errors.validationError('action.metadata cannot set system metadata keys', {
+          field: 'action.metadata',
+          keys: reserved,
+        });
+      }
+      break;
+    }
+
+    case 'delete':
+      break;
+  }
+
+  if (dry_run !== undefined && typeof dry_run !== 'boolean') {
+    throw Errors.validationError('dry_run must be a boolean', { field: 'dry_run' });
+  }
+
+  next();
+}
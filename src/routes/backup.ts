@@ -0,0 +1,145 @@
+/**
+ * Backup Routes
+ *
+ * Full account export and import as JSONL (see services/backup.ts for the format)
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { createGzip } from 'zlib';
+import { Writable } from 'stream';
+import { once } from 'events';
+import { authenticateApiKey } from '../middleware/auth.js';
+import { exportAccount, importAccount, ImportConflictStrategy } from '../services/backup.js';
+
+const router = Router();
+
+const CONFLICT_STRATEGIES: ImportConflictStrategy[] = ['skip', 'overwrite', 'duplicate'];
+
+// All routes require authentication
+router.use(authenticateApiKey);
+
+/**
+ * Wait until the output drains; false if the client disconnects (or the
+ * response fails) first, in which case it never will
+ */
+async function drainOrClose(output: Writable, res: Response): Promise<boolean> {
+  if (res.destroyed) return false;
+
+  const waiting = new AbortController();
+  const { signal } = waiting;
+  try {
+    return await Promise.race([
+      once(output, 'drain', { signal }).then(() => true),
+      once(res, 'close', { signal }).then(() => false),
+      once(res, 'error', { signal }).then(() => false),
+    ]);
+  } finally {
+    // Remove the listeners the other waits left behind
+    waiting.abort();
+  }
+}
+
+/**
+ * GET /api/v1/export
+ * Stream all of the user's memories and relationships as JSONL
+ *
+ * Query: format (jsonl | jsonl.gz), include_embeddings (true to include vectors)
+ */
+router.get('/export', async (req: Request, res: Response): Promise<void> => {
+  const user = req.user!;
+  const format = (req.query.format as string) || 'jsonl';
+  const includeEmbeddings = req.query.include_embeddings === 'true';
+
+  if (format !== 'jsonl' && format !== 'jsonl.gz') {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'Format must be "jsonl" or "jsonl.gz".'
+    });
+    return;
+  }
+
+  const filename = `recallbricks-export-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader('Content-Type', format === 'jsonl' ? 'application/x-ndjson' : 'application/gzip');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  let output: Writable = res;
+  if (format === 'jsonl.gz') {
+    const gzip = createGzip();
+    gzip.pipe(res);
+    output = gzip;
+  }
+
+  try {
+    for await (const record of exportAccount(user.id, { includeEmbeddings })) {
+      // Respect backpressure so slow clients don't buffer the whole account
+      if (!output.write(JSON.stringify(record) + '\n') && !(await drainOrClose(output, res))) {
+        // The client went away; leaving the loop stops the export generator
+        if (output !== res) output.destroy();
+        return;
+      }
+    }
+    output.end();
+  } catch (error: any) {
+    console.error('Error exporting account:', error);
+
+    if (!res.headersSent) {
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error.message || 'Failed to export account.'
+      });
+      return;
+    }
+
+    // Headers are gone; abort so the client sees a truncated download
+    // (the footer line is missing) rather than a silently short export
+    res.destroy(error);
+  }
+});
+
+/**
+ * POST /api/v1/import
+ * Restore a JSONL export (Content-Type: application/x-ndjson, optionally
+ * Content-Encoding: gzip)
+ *
+ * Query: conflict (skip | overwrite | duplicate) for ids already in the account
+ */
+router.post(
+  '/import',
+  express.text({
+    type: ['application/x-ndjson', 'application/jsonl', 'text/plain'],
+    limit: process.env.IMPORT_BODY_LIMIT || '50mb',
+  }),
+  async (req: Request, res: Response): Promise<void> => {
+    const user = req.user!;
+    const conflict = ((req.query.conflict as string) || 'skip') as ImportConflictStrategy;
+
+    if (!CONFLICT_STRATEGIES.includes(conflict)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Conflict must be one of: ${CONFLICT_STRATEGIES.join(', ')}.`
+      });
+      return;
+    }
+
+    if (typeof req.body !== 'string' || req.body.trim().length === 0) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Request body must be a JSONL export (Content-Type: application/x-ndjson).'
+      });
+      return;
+    }
+
+    try {
+      const summary = await importAccount(user.id, req.body.split(/\r?\n/), conflict);
+      res.status(summary.errors.length === 0 ? 200 : 207).json({ conflict, ...summary });
+    } catch (error: any) {
+      console.error('Error importing account:', error);
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: error.message || 'Failed to import account.'
+      });
+    }
+  }
+);
+
+export default router;
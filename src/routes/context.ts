@@ -5,9 +5,10 @@
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { supabase } from '../config/supabase.js';
+import { store } from '../storage/index.js';
 import { authenticateApiKey } from '../middleware/auth.js';
 import { ContextRequest } from '../types/recallbricks.js';
+import { extractKeywords } from '../utils/text.js';
 
 const router = Router();
 
@@ -32,46 +33,20 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
     }
 
     // INTELLIGENT KEYWORD EXTRACTION
-    const stopWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'is', 'was', 'are', 'were', 'been', 'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'can', 'may', 'might', 'what', 'when', 'where', 'who', 'how', 'why', 'this', 'that', 'these', 'those']);
-    
-    const keywords = query
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter((word: string) => word.length > 2 && !stopWords.has(word))
-      .slice(0, 10);
+    const keywords = extractKeywords(query, 10);
 
     if (conversation_history && conversation_history.length > 0) {
       const recentContext = conversation_history.slice(-3).join(' ');
-      const historyKeywords = recentContext
-        .toLowerCase()
-        .replace(/[^\w\s]/g, ' ')
-        .split(/\s+/)
-        .filter((word: string) => word.length > 2 && !stopWords.has(word))
-        .slice(0, 5);
-      keywords.push(...historyKeywords);
+      keywords.push(...extractKeywords(recentContext, 5));
     }
 
     const searchQuery = keywords.join(' | ');
 
-    let dbQuery = supabase
-      .from('memories')
-      .select('*')
-      .eq('user_id', user.id)
-      .textSearch('text_search', searchQuery, {
-        type: 'websearch',
-        config: 'english'
-      })
-      .order('created_at', { ascending: false })
-      .limit(limit || 10);
-
-    if (project_id) {
-      dbQuery = dbQuery.eq('project_id', project_id);
-    }
-
-    const { data, error } = await dbQuery;
-
-    if (error) throw error;
+    const data = await store.memories.list(user.id, {
+      query: searchQuery,
+      projectId: project_id,
+      limit: limit || 10,
+    });
 
     const scoredMemories = (data || []).map((memory: any) => {
       let score = 0;
@@ -121,35 +96,13 @@ router.post('/search', async (req: Request, res: Response): Promise<void> => {
     const user = req.user!;
     const { query, tags, source, project_id, limit } = req.body;
 
-    let dbQuery = supabase
-      .from('memories')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(limit || 50);
-
-    if (query) {
-      dbQuery = dbQuery.textSearch('text_search', query, {
-        type: 'websearch',
-        config: 'english'
-      });
-    }
-
-    if (tags && tags.length > 0) {
-      dbQuery = dbQuery.contains('tags', tags);
-    }
-
-    if (source) {
-      dbQuery = dbQuery.eq('source', source);
-    }
-
-    if (project_id) {
-      dbQuery = dbQuery.eq('project_id', project_id);
-    }
-
-    const { data, error } = await dbQuery;
-
-    if (error) throw error;
+    const data = await store.memories.list(user.id, {
+      query,
+      tags,
+      source,
+      projectId: project_id,
+      limit: limit || 50,
+    });
 
     res.json({
       memories: data || [],
@@ -5,7 +5,7 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { supabase } from '../config/supabase.js';
+import { store } from '../storage/index.js';
 import { dbCircuitBreaker } from '../utils/circuitBreaker.js';
 import { register } from '../utils/metrics.js';
 import { logger } from '../utils/logger.js';
@@ -45,32 +45,12 @@ router.get('/health/ready', async (req: Request, res: Response): Promise<void> =
 
   try {
     // Check database connection
-    const dbStart = Date.now();
-    try {
-      const { error } = await supabase
-        .from('memories')
-        .select('id', { head: true, count: 'exact' });
-
-      const latency = Date.now() - dbStart;
-
-      if (error) {
-        checks.database = {
-          status: 'unhealthy',
-          latency,
-          error: error.message,
-        };
-      } else {
-        checks.database = {
-          status: 'healthy',
-          latency,
-        };
-      }
-    } catch (dbError: any) {
-      checks.database = {
-        status: 'unhealthy',
-        error: dbError.message,
-      };
-    }
+    const health = await store.checkHealth();
+    checks.database = {
+      status: health.connected ? 'healthy' : 'unhealthy',
+      latency: health.latency,
+      error: health.error,
+    };
 
     // Check circuit breaker state
     const cbStats = dbCircuitBreaker.getStats();
@@ -0,0 +1,113 @@
+/**
+ * Background Job Routes
+ *
+ * Status and dead-letter management for the user's background jobs
+ */
+
+import { Router, Request, Response } from 'express';
+import { JobStatus } from '../storage/index.js';
+import { authenticateApiKey } from '../middleware/auth.js';
+import { jobStore } from '../services/jobQueue.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'dead'];
+
+// All routes require authentication
+router.use(authenticateApiKey);
+
+/**
+ * GET /api/v1/jobs
+ * List the user's jobs, newest first
+ *
+ * Query: status (queued|running|succeeded|dead), type, limit (max 200)
+ */
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { status, type, limit = '50' } = req.query;
+
+    if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Status must be one of: ${JOB_STATUSES.join(', ')}.`,
+      });
+      return;
+    }
+
+    const jobs = await jobStore.list(user.id, {
+      status: status as JobStatus | undefined,
+      type: type as string | undefined,
+      limit: Math.min(parseInt(limit as string) || 50, 200),
+    });
+
+    res.json({
+      jobs,
+      count: jobs.length,
+    });
+  } catch (error: any) {
+    logger.error('Error listing jobs', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve jobs.',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/jobs/:id
+ * Get a single job with its status, attempts, last error and result
+ */
+router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const job = await jobStore.get(user.id, req.params.id);
+
+    if (!job) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Job not found.',
+      });
+      return;
+    }
+
+    res.json(job);
+  } catch (error: any) {
+    logger.error('Error fetching job', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve job.',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/jobs/:id/retry
+ * Requeue a dead-lettered job
+ */
+router.post('/:id/retry', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const job = await jobStore.retry(user.id, req.params.id);
+
+    if (!job) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No dead-lettered job with this id.',
+      });
+      return;
+    }
+
+    logger.info('Dead-lettered job requeued', { jobId: job.id, type: job.type, userId: user.id });
+    res.json(job);
+  } catch (error: any) {
+    logger.error('Error retrying job', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retry job.',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,121 @@
+/**
+ * MCP over HTTP
+ *
+ * The MCP server on the Streamable HTTP transport, behind the same
+ * authentication and rate limiting as the REST API:
+ *
+ *   POST   /mcp   JSON-RPC messages; an initialize request opens a session
+ *   GET    /mcp   event stream for server notifications (resource updates)
+ *   DELETE /mcp   end the session
+ *
+ * Sessions are identified by the Mcp-Session-Id header and act for the user
+ * who opened them; other users get 404 for them. Each user holds at most
+ * mcpConfig.maxSessionsPerUser sessions.
+ */
+
+import { randomUUID } from 'crypto';
+import { Router, Request, Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../mcp/server.js';
+import { authenticateApiKey } from '../middleware/auth.js';
+import { apiKeyRateLimit } from '../middleware/rateLimit.js';
+import { mcpConfig } from '../config/mcp.js';
+import { logger } from '../utils/logger.js';
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  userId: string;
+  lastSeen: number;
+}
+
+const sessions = new Map<string, McpSession>();
+
+const router = Router();
+
+// All requests are authenticated (the session is bound to the user)
+router.use(authenticateApiKey, apiKeyRateLimit);
+
+function jsonRpcError(res: Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Close the user's least recently used sessions to make room for a new one
+ */
+async function evictSessions(userId: string): Promise<void> {
+  const owned = [...sessions.values()]
+    .filter(session => session.userId === userId)
+    .sort((a, b) => a.lastSeen - b.lastSeen);
+
+  const excess = owned.length - mcpConfig.maxSessionsPerUser + 1;
+  for (const session of owned.slice(0, Math.max(0, excess))) {
+    await session.transport.close();
+  }
+}
+
+async function openSession(req: Request, res: Response): Promise<void> {
+  const userId = req.user!.id;
+  await evictSessions(userId);
+
+  const server = createMcpServer({ userId });
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: sessionId => {
+      sessions.set(sessionId, { transport, userId, lastSeen: Date.now() });
+      logger.info('MCP session opened', { sessionId, userId });
+    },
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId && sessions.delete(transport.sessionId)) {
+      logger.info('MCP session closed', { sessionId: transport.sessionId, userId });
+    }
+  };
+
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+}
+
+/**
+ * POST|GET|DELETE /mcp
+ */
+router.all('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (sessionId === undefined) {
+      if (req.method === 'POST' && isInitializeRequest(req.body)) {
+        await openSession(req, res);
+        return;
+      }
+
+      jsonRpcError(res, 400, 'Bad Request: Mcp-Session-Id header is required');
+      return;
+    }
+
+    const session = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (!session || session.userId !== req.user!.id) {
+      jsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    session.lastSeen = Date.now();
+    await session.transport.handleRequest(req, res, req.body);
+  } catch (error: any) {
+    console.error('MCP request error:', error);
+    if (!res.headersSent) {
+      jsonRpcError(res, 500, 'Internal server error');
+    }
+  }
+});
+
+/**
+ * Close every open session (on shutdown, so event streams don't hold the
+ * HTTP server open)
+ */
+export async function closeMcpSessions(): Promise<void> {
+  await Promise.all([...sessions.values()].map(session => session.transport.close()));
+}
+
+export default router;
@@ -1,69 +1,230 @@
 /**
  * Memories Routes
  * 
- * CRUD operations for memories using Supabase with vector embeddings
+ * CRUD operations for memories using the configured storage backend with vector embeddings
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { supabase } from '../config/supabase.js';
+import {
+  store,
+  MemoryFilters,
+  MatchCursor,
+  MemoryPage,
+  MemorySortField,
+  SortOrder,
+  TotalCountMode,
+  ListCursor,
+  listCursorFor,
+} from '../storage/index.js';
 import { authenticateApiKey } from '../middleware/auth.js';
+import {
+  validateSearch,
+  validateSearchFilters,
+  validateListParams,
+  validateMemoryCreation,
+  validateMemoryBatch,
+  validateBulkOperation,
+  checkMemoryInput,
+} from '../middleware/validation.js';
 import { CreateMemoryRequest, Memory } from '../types/recallbricks.js';
-import OpenAI from 'openai';
-import { detectRelationships } from '../services/relationshipDetector.js';
+import { queueRelationshipDetection } from '../services/relationshipDetector.js';
 import { relationshipConfig } from '../config/relationshipDetection.js';
+import { embeddingProvider, generateEmbeddings } from '../services/embeddings.js';
+import { hybridSearch, HybridSearchOptions, HYBRID_SEARCH_DEFAULTS } from '../services/hybridSearch.js';
+import { encodeCursor, decodeCursor } from '../utils/pagination.js';
+import { chunk, mapWithConcurrency } from '../utils/batch.js';
+import { APIError, ErrorCode } from '../utils/errors.js';
+import { dedupeConfig, DedupeMode, DEDUPE_MODES } from '../config/dedupe.js';
+import { mergeMemories } from '../services/deduplication.js';
+import { listVersions, revertMemory } from '../services/memoryVersions.js';
+import {
+  createMemory,
+  embeddingUnavailableMessage,
+  extractKeyInfo,
+  extractionEnabled,
+  newMemoryRow,
+  recallContext,
+  updateMemory,
+  vectorSearch,
+} from '../services/memories.js';
+import { purgeAt } from '../services/trash.js';
+import { runBulkOperation, BulkAction } from '../services/bulkOperations.js';
+import { trashConfig } from '../config/trash.js';
 
 const router = Router();
 
-// Initialize OpenAI client (optional)
-const openai = process.env.OPENAI_API_KEY ? new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-}) : null;
+/**
+ * Respond 503 when a query embedding cannot be produced, instead of
+ * running a vector search against a null vector
+ */
+function embeddingUnavailable(res: Response): void {
+  res.status(503).json({
+    error: 'Service Unavailable',
+    message: embeddingUnavailableMessage(),
+  });
+}
 
-// Function to extract key information using OpenAI GPT-4o-mini (optional)
-async function extractKeyInfo(text: string): Promise<string> {
-  if (!openai) {
-    return text; // Skip extraction if no OpenAI key
+/**
+ * Parse hybrid search tuning parameters from a query string or body.
+ * Returns an error message for invalid values.
+ */
+function parseHybridOptions(
+  params: Record<string, any>,
+  limit: number
+): { options?: Partial<HybridSearchOptions>; error?: string } {
+  const options: Partial<HybridSearchOptions> = { limit };
+  const numeric: Array<[string, keyof HybridSearchOptions]> = [
+    ['vector_weight', 'vectorWeight'],
+    ['lexical_weight', 'lexicalWeight'],
+    ['rrf_k', 'rrfK'],
+  ];
+
+  for (const [param, key] of numeric) {
+    if (params[param] === undefined) continue;
+
+    const value = Number(params[param]);
+    if (isNaN(value) || value < 0) {
+      return { error: `${param} must be a non-negative number.` };
+    }
+    options[key] = value;
   }
-  try {
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'Extract only key information: decisions, code, facts. Remove explanations and filler.'
-        },
-        {
-          role: 'user',
-          content: text
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 500
-    });
 
-    const extracted = completion.choices[0]?.message?.content?.trim();
-    return extracted || text;
-  } catch (error) {
-    console.error('Error extracting key information:', error);
-    return text;
+  if (options.vectorWeight === 0 && options.lexicalWeight === 0) {
+    return { error: 'At least one of vector_weight and lexical_weight must be positive.' };
   }
+
+  return { options };
 }
 
-// Function to generate embedding (optional)
-async function generateEmbedding(text: string): Promise<number[] | null> {
-  if (!openai) {
-    return null; // Skip embeddings if no OpenAI key
-  }
-  try {
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
+/**
+ * Read memory filters from validated query string or body params
+ */
+function readSearchFilters(params: Record<string, any>): MemoryFilters {
+  const tags = typeof params.tags === 'string'
+    ? params.tags.split(',').map((tag: string) => tag.trim()).filter(Boolean)
+    : params.tags;
+
+  return {
+    tags,
+    source: params.source,
+    projectId: params.project_id,
+    createdAfter: params.created_after,
+    createdBefore: params.created_before,
+  };
+}
+
+/**
+ * Shared implementation of GET and POST /search.
+ * Params are validated by validateSearch and validateSearchFilters.
+ */
+async function respondWithSearch(
+  res: Response,
+  userId: string,
+  query: string,
+  params: Record<string, any>
+): Promise<void> {
+  const limit = params.limit !== undefined ? Number(params.limit) : 10;
+  const threshold = params.threshold !== undefined ? Number(params.threshold) : undefined;
+  const filters = readSearchFilters(params);
+
+  if (params.mode === 'hybrid') {
+    if (params.cursor) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Cursor pagination is only supported in vector mode.'
+      });
+      return;
+    }
+
+    const { options, error } = parseHybridOptions(params, limit);
+    if (error) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: error
+      });
+      return;
+    }
+
+    if (threshold !== undefined) {
+      options!.threshold = threshold;
+    }
+
+    const result = await hybridSearch(userId, query, options, filters);
+    const applied = { ...HYBRID_SEARCH_DEFAULTS, ...options };
+
+    res.json({
+      memories: result.results,
+      count: result.results.length,
+      query,
+      mode: 'hybrid',
+      threshold: applied.threshold,
+      fusion: {
+        method: 'rrf',
+        k: applied.rrfK,
+        vector_weight: applied.vectorWeight,
+        lexical_weight: applied.lexicalWeight,
+      },
+      vector_available: result.vectorAvailable,
+      candidates: {
+        vector: result.vectorCandidates,
+        lexical: result.lexicalCandidates,
+      },
+      keywords: result.keywords,
     });
-    return response.data[0].embedding;
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    return null;
+    return;
+  }
+
+  const after = params.cursor
+    ? decodeCursor<MatchCursor & Record<string, unknown>>(params.cursor, ['similarity', 'id']) ?? undefined
+    : undefined;
+
+  const result = await vectorSearch(userId, query, { ...filters, limit, threshold, after });
+  if (!result) {
+    embeddingUnavailable(res);
+    return;
   }
+
+  res.json({
+    memories: result.memories,
+    count: result.memories.length,
+    query,
+    threshold: result.threshold,
+    next_cursor: result.nextCursor,
+  });
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+
+/**
+ * Fetch one keyset page for GET / and /context/all.
+ * Params are validated by validateListParams.
+ */
+async function listMemoryPage(
+  userId: string,
+  params: Record<string, any>
+): Promise<{ page: MemoryPage; limit: number; sort: MemorySortField; order: SortOrder; nextCursor: string | null }> {
+  const limit = params.limit !== undefined ? Number(params.limit) : DEFAULT_LIST_LIMIT;
+  const sort: MemorySortField = params.sort || 'created';
+  const order: SortOrder = params.order || 'desc';
+  const after = params.cursor
+    ? decodeCursor<ListCursor & Record<string, unknown>>(params.cursor, ['value', 'id']) ?? undefined
+    : undefined;
+
+  const page = await store.memories.listPage(userId, {
+    ...readSearchFilters(params),
+    sort,
+    order,
+    limit,
+    after,
+    count: params.total as TotalCountMode | undefined,
+  });
+
+  const last = page.memories[page.memories.length - 1];
+  const nextCursor = page.hasMore && last
+    ? encodeCursor({ sort, order, ...listCursorFor(last, sort) })
+    : null;
+
+  return { page, limit, sort, order, nextCursor };
 }
 
 // All routes require authentication
@@ -72,54 +233,41 @@ router.use(authenticateApiKey);
 /**
  * POST /api/v1/memories
  * Create a new memory with vector embedding
+ *
+ * Body: CreateMemoryRequest, plus dedupe (off|return|merge, default
+ * MEMORY_DEDUPE_MODE). Unless off, a memory in the same project with the
+ * same text, or an embedding similarity of at least MEMORY_DEDUPE_THRESHOLD,
+ * is returned (200) instead of inserting - with merge, after adding the new
+ * tags and metadata to it.
  */
-router.post('/', async (req: Request, res: Response): Promise<void> => {
+router.post('/', validateMemoryCreation, async (req: Request, res: Response): Promise<void> => {
   try {
     const user = req.user!;
-    const { text, source, project_id, tags, metadata }: CreateMemoryRequest = req.body;
-
-   // Extract key information (optional)
-    const extractedText = await extractKeyInfo(text);
-
-    // Generate embedding (optional)
-    const embedding = await generateEmbedding(extractedText);
-
-    const memory = {
-      user_id: user.id,
-      text: extractedText,
-      source: source || 'api',
-      project_id: project_id || 'default',
-      tags: tags || [],
-      metadata: {
-        ...metadata,
-        original_text: text,
-        extracted: !!openai
-      },
-      embedding: embedding ? `[${embedding.join(',')}]` : null,
-    };
-
-    const { data, error } = await supabase
-      .from('memories')
-      .insert(memory)
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    // Trigger async relationship detection (fire-and-forget)
-    if (data?.id && relationshipConfig.asyncExecution) {
-      detectRelationships(data.id, extractedText, user.id)
-        .then(result => {
-          if (result.success && result.relationshipsFound > 0) {
-            console.log(`✓ Detected ${result.relationshipsFound} relationships for memory ${data.id}`);
-          }
-        })
-        .catch(err => {
-          console.error('Background relationship detection failed:', err);
-        });
+    const dedupe: DedupeMode = req.body.dedupe ?? dedupeConfig.mode;
+
+    if (!DEDUPE_MODES.includes(dedupe)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `dedupe must be one of: ${DEDUPE_MODES.join(', ')}.`
+      });
+      return;
+    }
+
+    const { memory, duplicate } = await createMemory(user.id, req.body, dedupe);
+
+    if (duplicate) {
+      res.status(200).json({
+        ...memory,
+        dedupe: {
+          match: duplicate.match,
+          similarity: duplicate.similarity,
+          action: dedupe === 'merge' ? 'merged' : 'returned',
+        },
+      });
+      return;
     }
 
-    res.status(201).json(data);
+    res.status(201).json(memory);
   } catch (error: any) {
     console.error('Error creating memory:', error);
     res.status(500).json({
@@ -129,40 +277,154 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// Rows per insert and texts per embedding request in batch creation
+const BATCH_CHUNK_SIZE = parseInt(process.env.MEMORY_BATCH_CHUNK_SIZE || '100');
+const EXTRACTION_CONCURRENCY = 4;
+
+type BatchItemResult =
+  | { index: number; status: 'created'; id: string; detection: 'queued' | 'skipped' }
+  | { index: number; status: 'error'; error: { code: string; message: string; details?: Record<string, any> } };
+
+function batchItemError(index: number, error: APIError): BatchItemResult {
+  return {
+    index,
+    status: 'error',
+    error: { code: error.code, message: error.message, details: error.details },
+  };
+}
+
 /**
- * GET /api/v1/memories
- * List memories with optional filters
+ * POST /api/v1/memories/batch
+ * Create many memories in one request: embeddings are generated in batches,
+ * rows are inserted in chunks and relationship detection is queued.
+ * Responds 201 when every item was created, otherwise 207 with per-item errors.
  */
-router.get('/', async (req: Request, res: Response): Promise<void> => {
+router.post('/batch', validateMemoryBatch, async (req: Request, res: Response): Promise<void> => {
   try {
     const user = req.user!;
-    const { limit, source, project_id } = req.query;
-
-    let query = supabase
-      .from('memories')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+    const items: any[] = req.body.memories;
+    const extract: boolean = req.body.extract ?? true;
+    const results = new Array<BatchItemResult>(items.length);
+
+    const valid: Array<{ index: number; request: CreateMemoryRequest }> = [];
+    items.forEach((item, index) => {
+      const error = checkMemoryInput(item);
+      if (error) {
+        results[index] = batchItemError(index, error);
+      } else {
+        valid.push({ index, request: item });
+      }
+    });
 
-    if (limit) {
-      query = query.limit(parseInt(limit as string));
+    // Extract key information (optional), a few calls at a time
+    const extractedTexts = extract && extractionEnabled
+      ? await mapWithConcurrency(valid, EXTRACTION_CONCURRENCY, ({ request }) => extractKeyInfo(request.text))
+      : valid.map(({ request }) => request.text);
+
+    const embeddings = await generateEmbeddings(extractedTexts, BATCH_CHUNK_SIZE);
+
+    const rows = valid.map(({ request }, i) =>
+      newMemoryRow(user.id, request, extractedTexts[i], embeddings[i], extract && extractionEnabled)
+    );
+
+    const chunks = chunk(valid.map((item, i) => ({ ...item, row: rows[i] })), BATCH_CHUNK_SIZE);
+    for (const entries of chunks) {
+      try {
+        const inserted = await store.memories.insertMany(entries.map(entry => entry.row));
+
+        for (const [i, entry] of entries.entries()) {
+          // Queue relationship detection on the background worker, as single creates do
+          const queued = relationshipConfig.asyncExecution &&
+            await queueRelationshipDetection(inserted[i].id, user.id).catch(err => {
+              console.error('Failed to queue relationship detection:', err);
+              return null;
+            });
+
+          results[entry.index] = {
+            index: entry.index,
+            status: 'created',
+            id: inserted[i].id,
+            detection: queued ? 'queued' : 'skipped',
+          };
+        }
+      } catch (error: any) {
+        console.error('Error inserting memory batch chunk:', error);
+        const failure = error instanceof APIError
+          ? error
+          : new APIError(ErrorCode.DATABASE_ERROR, error.message || 'Failed to insert memories.');
+        entries.forEach(entry => {
+          results[entry.index] = batchItemError(entry.index, failure);
+        });
+      }
     }
 
-    if (source) {
-      query = query.eq('source', source);
-    }
+    const created = results.filter(result => result.status === 'created').length;
 
-    if (project_id) {
-      query = query.eq('project_id', project_id);
-    }
+    res.status(created === items.length ? 201 : 207).json({
+      results,
+      created,
+      failed: items.length - created,
+    });
+  } catch (error: any) {
+    console.error('Error creating memory batch:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to create memories.'
+    });
+  }
+});
 
-    const { data, error, count } = await query;
+/**
+ * POST /api/v1/memories/bulk
+ * Apply one action to every memory matching a filter.
+ *
+ * Filter: ids, query (full-text), tags, source, project_id, created_after, created_before
+ * Actions: delete (to the trash), add_tags, remove_tags, set_project,
+ * set_metadata (null values remove the key)
+ * dry_run: true only counts the matching memories
+ */
+router.post('/bulk', validateBulkOperation, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { filter, action, dry_run } = req.body;
+
+    const result = await runBulkOperation(
+      user.id,
+      { ...readSearchFilters(filter), ids: filter.ids, query: filter.query },
+      action as BulkAction,
+      dry_run ?? false
+    );
 
-    if (error) throw error;
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error running bulk memory operation:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to run bulk operation.'
+    });
+  }
+});
 
+/**
+ * GET /api/v1/memories
+ * List memories, newest first by default
+ *
+ * Filters: tags (comma-separated), source, project_id, created_after, created_before
+ * Paging: limit, sort (created|updated|strength), order (asc|desc), cursor (from next_cursor),
+ * total (exact|estimated) to include the number of matching memories
+ */
+router.get('/', validateListParams, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { page, limit, sort, order, nextCursor } = await listMemoryPage(user.id, req.query);
     res.json({
-      memories: data,
-      count: data?.length || 0
+      memories: page.memories,
+      count: page.memories.length,
+      limit,
+      sort,
+      order,
+      next_cursor: nextCursor,
+      total: page.total,
     });
   } catch (error: any) {
     console.error('Error listing memories:', error);
@@ -176,38 +438,15 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
 /**
  * GET /api/v1/memories/search
  * Semantic search using vector similarity
+ * (mode=hybrid fuses vector and full-text rankings)
+ *
+ * Filters: tags (comma-separated), source, project_id, created_after, created_before
+ * Paging: limit, threshold, cursor (from next_cursor)
  */
-router.get('/search', async (req: Request, res: Response): Promise<void> => {
+router.get('/search', validateSearch, validateSearchFilters, async (req: Request, res: Response): Promise<void> => {
   try {
     const user = req.user!;
-    const { q, limit = 10 } = req.query;
-
-    if (!q || typeof q !== 'string') {
-      res.status(400).json({
-        error: 'Bad Request',
-        message: 'Query parameter "q" is required.'
-      });
-      return;
-    }
-
-    // Generate embedding for the search query
-    const queryEmbedding = await generateEmbedding(q);
-
-    // Use Supabase RPC for vector similarity search
-    const { data, error } = await supabase.rpc('match_memories', {
-      query_embedding: JSON.stringify(queryEmbedding),
-      match_threshold: 0.5,
-      match_count: parseInt(limit as string),
-      filter_user_id: user.id
-    });
-
-    if (error) throw error;
-
-    res.json({
-      memories: data || [],
-      count: data?.length || 0,
-      query: q
-    });
+    await respondWithSearch(res, user.id, req.query.q as string, req.query);
   } catch (error: any) {
     console.error('Error searching memories:', error);
     res.status(500).json({
@@ -220,36 +459,12 @@ router.get('/search', async (req: Request, res: Response): Promise<void> => {
 /**
  * POST /api/v1/memories/search
  * Semantic search using vector similarity (POST version for body params)
+ * (mode: "hybrid" fuses vector and full-text rankings)
  */
-router.post('/search', async (req: Request, res: Response): Promise<void> => {
+router.post('/search', validateSearch, validateSearchFilters, async (req: Request, res: Response): Promise<void> => {
   try {
     const user = req.user!;
-    const { query, limit = 10 } = req.body;
-
-    if (!query || typeof query !== 'string') {
-      res.status(400).json({
-        error: 'Bad Request',
-        message: 'Query field is required.'
-      });
-      return;
-    }
-
-    const queryEmbedding = await generateEmbedding(query);
-
-    const { data, error } = await supabase.rpc('match_memories', {
-      query_embedding: JSON.stringify(queryEmbedding),
-      match_threshold: 0.5,
-      match_count: parseInt(String(limit)),
-      filter_user_id: user.id
-    });
-
-    if (error) throw error;
-
-    res.json({
-      memories: data || [],
-      count: data?.length || 0,
-      query
-    });
+    await respondWithSearch(res, user.id, req.body.query, req.body);
   } catch (error: any) {
     console.error('Error searching memories:', error);
     res.status(500).json({
@@ -276,21 +491,12 @@ router.get('/context', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate embedding for the search query
-    const queryEmbedding = await generateEmbedding(q);
-
-    // Use Supabase RPC for vector similarity search
-    const { data, error } = await supabase.rpc('match_memories', {
-      query_embedding: JSON.stringify(queryEmbedding),
-      match_threshold: 0.5,
-      match_count: parseInt(limit as string),
-      filter_user_id: user.id
-    });
-
-    if (error) throw error;
-
-    // Extract only the text field for clean AI consumption
-    const context = (data || []).map((memory: any) => memory.text);
+    // Only the text of each match, for clean AI consumption
+    const context = await recallContext(user.id, q, parseInt(limit as string));
+    if (!context) {
+      embeddingUnavailable(res);
+      return;
+    }
 
     res.json({
       context,
@@ -307,34 +513,23 @@ router.get('/context', async (req: Request, res: Response): Promise<void> => {
 
 /**
  * GET /api/v1/memories/context/all
- * Get all memories for the authenticated user as clean text context
+ * Get all memories for the authenticated user as clean text context,
+ * paged with the same cursor parameters as GET /api/v1/memories
  */
-router.get('/context/all', async (req: Request, res: Response): Promise<void> => {
+router.get('/context/all', validateListParams, async (req: Request, res: Response): Promise<void> => {
   try {
     const user = req.user!;
-    const { limit = 100, offset = 0 } = req.query;
-
-    // Fetch all memories for the user, ordered by most recent
-    const { data, error } = await supabase
-      .from('memories')
-      .select('text')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .range(
-        parseInt(offset as string),
-        parseInt(offset as string) + parseInt(limit as string) - 1
-      );
-
-    if (error) throw error;
+    const { page, limit, nextCursor } = await listMemoryPage(user.id, req.query);
 
     // Extract only the text field for clean AI consumption
-    const context = (data || []).map((memory: any) => memory.text);
+    const context = page.memories.map(memory => memory.text);
 
     res.json({
       context,
       count: context.length,
-      limit: parseInt(limit as string),
-      offset: parseInt(offset as string)
+      limit,
+      next_cursor: nextCursor,
+      total: page.total,
     });
   } catch (error: any) {
     console.error('Error retrieving all context:', error);
@@ -345,6 +540,41 @@ router.get('/context/all', async (req: Request, res: Response): Promise<void> =>
   }
 });
 
+/**
+ * GET /api/v1/memories/embeddings
+ * Report which embedding providers/models the user's memories were embedded with,
+ * so mixed-model stores (whose vectors are not comparable) can be detected
+ */
+router.get('/embeddings', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const models = await store.memories.embeddingStats(user.id);
+
+    const embedded = models.filter(m => m.provider !== null);
+    const current = embeddingProvider
+      ? { provider: embeddingProvider.name, model: embeddingProvider.model, dimensions: embeddingProvider.dimensions }
+      : null;
+
+    const mismatched = embedded
+      .filter(m => !current || m.provider !== current.provider || m.model !== current.model || m.dimensions !== current.dimensions)
+      .reduce((sum, m) => sum + m.count, 0);
+
+    res.json({
+      current,
+      models,
+      mixed: embedded.length > 1,
+      missing: models.filter(m => m.provider === null).reduce((sum, m) => sum + m.count, 0),
+      mismatched,
+    });
+  } catch (error: any) {
+    console.error('Error retrieving embedding stats:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve embedding stats.'
+    });
+  }
+});
+
 /**
  * GET /api/v1/memories/test-extraction
  * Test endpoint to verify OpenAI extraction is working
@@ -383,6 +613,65 @@ router.get('/test-extraction', async (req: Request, res: Response): Promise<void
   }
 });
 
+// Trashed memories listed per request
+const DEFAULT_TRASH_LIMIT = 50;
+const MAX_TRASH_LIMIT = 200;
+
+/**
+ * GET /api/v1/memories/trash
+ * Memories in the trash, most recently deleted first, with the time each
+ * will be purged
+ *
+ * Query: limit (default 50, max 200), cursor (from next_cursor)
+ */
+router.get('/trash', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    const limit = req.query.limit === undefined ? DEFAULT_TRASH_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRASH_LIMIT) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `limit must be an integer between 1 and ${MAX_TRASH_LIMIT}.`
+      });
+      return;
+    }
+
+    let after: ListCursor | undefined;
+    if (req.query.cursor !== undefined) {
+      const cursor = decodeCursor<ListCursor & Record<string, unknown>>(String(req.query.cursor), ['value', 'id']);
+      if (!cursor) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: 'Invalid cursor.'
+        });
+        return;
+      }
+      after = cursor;
+    }
+
+    const page = await store.memories.listTrash(user.id, { limit, after });
+    const last = page.memories[page.memories.length - 1];
+
+    res.json({
+      memories: page.memories.map(({ embedding, ...memory }) => ({
+        ...memory,
+        purge_at: purgeAt(memory.deleted_at!)
+      })),
+      count: page.memories.length,
+      limit,
+      retention_days: trashConfig.retentionDays,
+      next_cursor: page.hasMore && last ? encodeCursor({ value: last.deleted_at, id: last.id }) : null,
+    });
+  } catch (error: any) {
+    console.error('Error listing trash:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to list trash.'
+    });
+  }
+});
+
 /**
  * GET /api/v1/memories/:id
  * Get a single memory by ID
@@ -392,14 +681,9 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     const user = req.user!;
     const { id } = req.params;
 
-    const { data, error } = await supabase
-      .from('memories')
-      .select('*')
-      .eq('id', id)
-      .eq('user_id', user.id)
-      .single();
+    const data = await store.memories.getById(user.id, id);
 
-    if (error || !data) {
+    if (!data) {
       res.status(404).json({
         error: 'Not Found',
         message: 'Memory not found.'
@@ -419,24 +703,39 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
 
 /**
  * DELETE /api/v1/memories/:id
- * Delete a memory by ID
+ * Move a memory to the trash (restorable until purged), or delete it
+ * permanently with permanent=true - also for a memory already in the trash
  */
 router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
     const user = req.user!;
     const { id } = req.params;
+    const permanent = req.query.permanent === 'true';
+
+    const deleted = permanent
+      ? await store.memories.delete(user.id, id)
+      : await store.memories.trash(user.id, id);
 
-    const { error } = await supabase
-      .from('memories')
-      .delete()
-      .eq('id', id)
-      .eq('user_id', user.id);
+    if (!deleted) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Memory not found.'
+      });
+      return;
+    }
 
-    if (error) throw error;
+    if (permanent) {
+      res.json({
+        message: 'Memory deleted permanently.',
+        id
+      });
+      return;
+    }
 
     res.json({
-      message: 'Memory deleted successfully.',
-      id
+      message: 'Memory moved to trash.',
+      id,
+      purge_at: purgeAt(new Date().toISOString())
     });
   } catch (error: any) {
     res.status(500).json({
@@ -446,9 +745,40 @@ router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * POST /api/v1/memories/:id/restore
+ * Take a memory out of the trash; its relationships reappear with it
+ */
+router.post('/:id/restore', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    const restored = await store.memories.restore(user.id, id);
+
+    if (!restored) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Memory not found in trash.'
+      });
+      return;
+    }
+
+    const { embedding, ...memory } = restored;
+    res.json(memory);
+  } catch (error: any) {
+    console.error('Error restoring memory:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to restore memory.'
+    });
+  }
+});
+
 /**
  * PUT /api/v1/memories/:id
- * Update a memory by ID (regenerates embedding if text changes)
+ * Update a memory by ID (regenerates embedding if text changes). The previous
+ * state is kept as a version.
  */
 router.put('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -456,26 +786,18 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     const { text, tags, metadata, project_id } = req.body;
 
-    const updates: any = {};
-    if (text) {
-      updates.text = text;
-      // Regenerate embedding if text changed
-      const newEmbedding = await generateEmbedding(text);
-      updates.embedding = newEmbedding ? `[${newEmbedding.join(',')}]` : null;
-    }
-    if (tags) updates.tags = tags;
-    if (metadata) updates.metadata = metadata;
-    if (project_id) updates.project_id = project_id;
+    const existing = await store.memories.getById(user.id, id);
 
-    const { data, error } = await supabase
-      .from('memories')
-      .update(updates)
-      .eq('id', id)
-      .eq('user_id', user.id)
-      .select()
-      .single();
+    if (!existing) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Memory not found.'
+      });
+      return;
+    }
 
-    if (error) throw error;
+    // metadata replaces the client's metadata; original_text and other system keys are kept
+    const data = await updateMemory(user.id, existing, { text, tags, metadata, project_id });
 
     if (!data) {
       res.status(404).json({
@@ -495,5 +817,196 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// Memories merged into another in one request
+const MAX_MERGE_SOURCES = 50;
+
+/**
+ * POST /api/v1/memories/:id/merge
+ * Merge other memories into this one: their relationships move here, tags
+ * and metadata are combined and the merged memories are moved to the trash
+ *
+ * Body: memory_ids (memories to merge in), text (optional replacement text)
+ */
+router.post('/:id/merge', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+    const { memory_ids, text } = req.body ?? {};
+
+    if (
+      !Array.isArray(memory_ids) ||
+      memory_ids.length === 0 ||
+      memory_ids.length > MAX_MERGE_SOURCES ||
+      !memory_ids.every(sourceId => typeof sourceId === 'string')
+    ) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `memory_ids must be an array of 1 to ${MAX_MERGE_SOURCES} memory ids.`
+      });
+      return;
+    }
+
+    if (memory_ids.includes(id)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'A memory cannot be merged into itself.'
+      });
+      return;
+    }
+
+    if (text !== undefined) {
+      const textError = checkMemoryInput({ text });
+      if (textError) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: textError.message
+        });
+        return;
+      }
+    }
+
+    const sourceIds: string[] = [...new Set(memory_ids)];
+    const [target, sources] = await Promise.all([
+      store.memories.getById(user.id, id),
+      store.memories.getMany(user.id, sourceIds),
+    ]);
+
+    if (!target) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Memory not found.'
+      });
+      return;
+    }
+
+    if (sources.length < sourceIds.length) {
+      const found = new Set(sources.map(source => source.id));
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Some memories to merge were not found.',
+        missing: sourceIds.filter(sourceId => !found.has(sourceId))
+      });
+      return;
+    }
+
+    // Keep the order given
+    sources.sort((a, b) => sourceIds.indexOf(a.id) - sourceIds.indexOf(b.id));
+
+    const result = await mergeMemories(user.id, target, sources, { text: text?.trim() });
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error merging memories:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to merge memories.'
+    });
+  }
+});
+
+// Versions listed per request
+const DEFAULT_VERSION_LIMIT = 50;
+const MAX_VERSION_LIMIT = 200;
+
+/**
+ * GET /api/v1/memories/:id/versions
+ * The memory's versions, current first, each with the changes it made to
+ * the version before it
+ *
+ * Query: limit (default 50, max 200)
+ */
+router.get('/:id/versions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+
+    const limit = req.query.limit === undefined ? DEFAULT_VERSION_LIMIT : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_VERSION_LIMIT) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `limit must be an integer between 1 and ${MAX_VERSION_LIMIT}.`
+      });
+      return;
+    }
+
+    const memory = await store.memories.getById(user.id, id);
+
+    if (!memory) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Memory not found.'
+      });
+      return;
+    }
+
+    const { embedding, ...current } = memory;
+    res.json(await listVersions(user.id, current, limit));
+  } catch (error: any) {
+    console.error('Error listing memory versions:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to list memory versions.'
+    });
+  }
+});
+
+/**
+ * POST /api/v1/memories/:id/revert
+ * Restore an earlier version of the memory, re-embedding its text. The
+ * replaced state becomes a new version, so a revert can itself be undone.
+ *
+ * Body: version
+ */
+router.post('/:id/revert', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { id } = req.params;
+    const { version } = req.body ?? {};
+
+    if (!Number.isInteger(version) || version < 1) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'version must be a positive integer.'
+      });
+      return;
+    }
+
+    const [memory, target] = await Promise.all([
+      store.memories.getById(user.id, id),
+      store.versions.get(user.id, id, version),
+    ]);
+
+    if (!memory) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Memory not found.'
+      });
+      return;
+    }
+
+    if (!target) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: `Version ${version} not found. Only previous versions can be reverted to.`
+      });
+      return;
+    }
+
+    const { embedding, ...current } = memory;
+    const result = await revertMemory(user.id, current, target);
+
+    res.json({
+      ...result.memory,
+      reverted_to: version,
+      changes: result.changes
+    });
+  } catch (error: any) {
+    console.error('Error reverting memory:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to revert memory.'
+    });
+  }
+});
+
 export default router;
 
@@ -5,20 +5,89 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { supabase } from '../config/supabase.js';
+import {
+  store,
+  CONTRADICTION_RESOLUTIONS,
+  FEEDBACK_VERDICTS,
+  RELATIONSHIP_TYPES,
+  FeedbackVerdict,
+  RelationshipDirection,
+  RelationshipUpdate,
+} from '../storage/index.js';
 import { authenticateApiKey } from '../middleware/auth.js';
 import { logger } from '../utils/logger.js';
 import { DBMetricsTracker } from '../utils/metrics.js';
-import { checkRelationshipDetectionHealth } from '../services/relationshipDetector.js';
+import {
+  checkRelationshipDetectionHealth,
+  queueRelationshipDetection,
+} from '../services/relationshipDetector.js';
+import { RELATIONSHIP_BACKFILL_JOB, startBackfill } from '../services/relationshipBackfill.js';
+import { getStrengthThresholds, precisionByType, recordFeedback } from '../services/relationshipFeedback.js';
+import { listContradictions, resolveContradiction } from '../services/contradictions.js';
+import { buildRelationshipGraph } from '../services/relationshipGraph.js';
+import { checkMemoryInput } from '../middleware/validation.js';
+import { jobStore } from '../services/jobQueue.js';
+import { relationshipConfig } from '../config/relationshipDetection.js';
 
 const router = Router();
 
+const DIRECTIONS = ['in', 'out', 'both'] as const;
+
 // All routes require authentication
 router.use(authenticateApiKey);
 
+/**
+ * Parse the direction query parameter; null when invalid. Defaults to out,
+ * the only direction these endpoints followed before incoming edges were added
+ * (symmetric types such as similar_to are listed from both ends regardless)
+ */
+function parseDirection(value: unknown): RelationshipDirection | 'both' | null {
+  if (value === undefined) {
+    return 'out';
+  }
+  return DIRECTIONS.includes(value as any) ? (value as RelationshipDirection | 'both') : null;
+}
+
+/**
+ * Validate relationship_type, strength and explanation in a request body.
+ * With `partial`, relationship_type may be omitted. Returns an error message.
+ */
+function checkRelationshipFields(body: any, partial: boolean): string | null {
+  const { relationship_type, strength, explanation } = body;
+
+  if ((relationship_type !== undefined || !partial) && !RELATIONSHIP_TYPES.includes(relationship_type)) {
+    return `relationship_type must be one of: ${RELATIONSHIP_TYPES.join(', ')}.`;
+  }
+
+  if (strength !== undefined && (typeof strength !== 'number' || strength < 0 || strength > 1)) {
+    return 'strength must be a number between 0 and 1.';
+  }
+
+  if (explanation !== undefined && typeof explanation !== 'string') {
+    return 'explanation must be a string.';
+  }
+
+  if (explanation && explanation.length > relationshipConfig.explanationMaxLength) {
+    return `explanation must be at most ${relationshipConfig.explanationMaxLength} characters.`;
+  }
+
+  return null;
+}
+
+function invalidDirection(res: Response): void {
+  res.status(400).json({
+    error: 'Bad Request',
+    message: `Direction must be one of: ${DIRECTIONS.join(', ')}.`,
+  });
+}
+
 /**
  * GET /api/v1/relationships/memory/:memoryId
  * Get all relationships for a specific memory
+ *
+ * Query: direction (out = stored on the memory, the default; in = pointing at
+ * it; both); incoming edges are returned from this memory's side with the
+ * inverse type
  */
 router.get('/memory/:memoryId', async (req: Request, res: Response): Promise<void> => {
   const tracker = new DBMetricsTracker('select', 'memory_relationships');
@@ -27,16 +96,18 @@ router.get('/memory/:memoryId', async (req: Request, res: Response): Promise<voi
     const user = req.user!;
     const { memoryId } = req.params;
     const { type, minStrength, limit = '50' } = req.query;
+    const direction = parseDirection(req.query.direction);
+
+    if (!direction) {
+      invalidDirection(res);
+      tracker.finish(false);
+      return;
+    }
 
     // Verify memory belongs to user
-    const { data: memory, error: memoryError } = await supabase
-      .from('memories')
-      .select('id')
-      .eq('id', memoryId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (memoryError || !memory) {
+    const memory = await store.memories.getById(user.id, memoryId);
+
+    if (!memory) {
       res.status(404).json({
         error: 'Not Found',
         message: 'Memory not found or does not belong to you.',
@@ -45,40 +116,18 @@ router.get('/memory/:memoryId', async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    // Build query
-    let query = supabase
-      .from('memory_relationships')
-      .select(`
-        id,
-        memory_id,
-        related_memory_id,
-        relationship_type,
-        strength,
-        explanation,
-        created_at,
-        related_memory:memories!memory_relationships_related_memory_id_fkey(id, text, created_at)
-      `)
-      .eq('memory_id', memoryId)
-      .order('strength', { ascending: false })
-      .limit(parseInt(limit as string));
-
-    // Apply filters
-    if (type) {
-      query = query.eq('relationship_type', type);
-    }
-
-    if (minStrength) {
-      query = query.gte('strength', parseFloat(minStrength as string));
-    }
-
-    const { data, error } = await query;
-
-    if (error) throw error;
+    const data = await store.relationships.listForMemory(memoryId, {
+      type: type as string | undefined,
+      minStrength: minStrength ? parseFloat(minStrength as string) : undefined,
+      limit: parseInt(limit as string),
+      direction,
+    });
 
     tracker.finish(true);
 
     res.json({
       memoryId,
+      direction,
       relationships: data || [],
       count: data?.length || 0,
     });
@@ -95,6 +144,9 @@ router.get('/memory/:memoryId', async (req: Request, res: Response): Promise<voi
 /**
  * GET /api/v1/relationships/graph/:memoryId
  * Get a graph of relationships (memory and its related memories with their relationships)
+ *
+ * Query: depth (max 3), minStrength, direction (out | in | both, default out)
+ * to follow. Edges are always reported in their stored direction.
  */
 router.get('/graph/:memoryId', async (req: Request, res: Response): Promise<void> => {
   const tracker = new DBMetricsTracker('select', 'memory_relationships');
@@ -104,18 +156,19 @@ router.get('/graph/:memoryId', async (req: Request, res: Response): Promise<void
     const { memoryId } = req.params;
     const { depth = '1', minStrength = '0.6' } = req.query;
 
-    const maxDepth = Math.min(parseInt(depth as string), 3); // Limit depth to prevent huge graphs
     const strengthThreshold = parseFloat(minStrength as string);
+    const direction = parseDirection(req.query.direction);
+
+    if (!direction) {
+      invalidDirection(res);
+      tracker.finish(false);
+      return;
+    }
 
     // Verify memory belongs to user
-    const { data: memory, error: memoryError } = await supabase
-      .from('memories')
-      .select('id, text, created_at')
-      .eq('id', memoryId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (memoryError || !memory) {
+    const rootMemory = await store.memories.getById(user.id, memoryId);
+
+    if (!rootMemory) {
       res.status(404).json({
         error: 'Not Found',
         message: 'Memory not found or does not belong to you.',
@@ -124,61 +177,11 @@ router.get('/graph/:memoryId', async (req: Request, res: Response): Promise<void
       return;
     }
 
-    // Build relationship graph using BFS
-    const visited = new Set<string>();
-    const nodes: any[] = [memory];
-    const edges: any[] = [];
-    const queue: Array<{ id: string; depth: number }> = [{ id: memoryId, depth: 0 }];
-
-    while (queue.length > 0) {
-      const { id, depth } = queue.shift()!;
-
-      if (visited.has(id) || depth >= maxDepth) {
-        continue;
-      }
-
-      visited.add(id);
-
-      // Get relationships for this memory
-      const { data: relationships, error: relError } = await supabase
-        .from('memory_relationships')
-        .select(`
-          id,
-          memory_id,
-          related_memory_id,
-          relationship_type,
-          strength,
-          explanation,
-          related_memory:memories!memory_relationships_related_memory_id_fkey(id, text, created_at)
-        `)
-        .eq('memory_id', id)
-        .gte('strength', strengthThreshold)
-        .order('strength', { ascending: false })
-        .limit(20);
-
-      if (relError) {
-        logger.error('Error fetching relationships in graph', { error: relError });
-        continue;
-      }
-
-      if (relationships) {
-        for (const rel of relationships) {
-          edges.push({
-            id: rel.id,
-            from: rel.memory_id,
-            to: rel.related_memory_id,
-            type: rel.relationship_type,
-            strength: rel.strength,
-            explanation: rel.explanation,
-          });
-
-          if (!visited.has(rel.related_memory_id) && rel.related_memory) {
-            nodes.push(rel.related_memory);
-            queue.push({ id: rel.related_memory_id, depth: depth + 1 });
-          }
-        }
-      }
-    }
+    const { nodes, edges, depth: maxDepth } = await buildRelationshipGraph(rootMemory, {
+      depth: parseInt(depth as string),
+      minStrength: strengthThreshold,
+      direction,
+    });
 
     tracker.finish(true);
 
@@ -192,6 +195,7 @@ router.get('/graph/:memoryId', async (req: Request, res: Response): Promise<void
         nodeCount: nodes.length,
         edgeCount: edges.length,
         depth: maxDepth,
+        direction,
       },
     });
   } catch (error: any) {
@@ -205,43 +209,247 @@ router.get('/graph/:memoryId', async (req: Request, res: Response): Promise<void
 });
 
 /**
- * GET /api/v1/relationships/types
- * Get relationship statistics by type for the authenticated user
+ * POST /api/v1/relationships
+ * Create a relationship between two of the user's memories. User-created
+ * relationships have source "user" and are never changed by detection.
+ *
+ * Body: memory_id, related_memory_id, relationship_type, strength (default 1),
+ * explanation
  */
-router.get('/types', async (req: Request, res: Response): Promise<void> => {
+router.post('/', async (req: Request, res: Response): Promise<void> => {
+  const tracker = new DBMetricsTracker('insert', 'memory_relationships');
+
   try {
     const user = req.user!;
+    const body = req.body ?? {};
+    const { memory_id, related_memory_id } = body;
+
+    if (typeof memory_id !== 'string' || typeof related_memory_id !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'memory_id and related_memory_id are required.',
+      });
+      tracker.finish(false);
+      return;
+    }
 
-    // Get all memory IDs for the user
-    const { data: userMemories, error: memoryError } = await supabase
-      .from('memories')
-      .select('id')
-      .eq('user_id', user.id);
+    if (memory_id === related_memory_id) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'A memory cannot be related to itself.',
+      });
+      tracker.finish(false);
+      return;
+    }
 
-    if (memoryError) throw memoryError;
+    const fieldError = checkRelationshipFields(body, false);
+    if (fieldError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: fieldError,
+      });
+      tracker.finish(false);
+      return;
+    }
 
-    const memoryIds = (userMemories || []).map((m: any) => m.id);
+    // Both ends must belong to the user
+    for (const id of [memory_id, related_memory_id]) {
+      if (!await store.memories.getById(user.id, id)) {
+        res.status(404).json({
+          error: 'Not Found',
+          message: `Memory ${id} not found or does not belong to you.`,
+        });
+        tracker.finish(false);
+        return;
+      }
+    }
 
-    if (memoryIds.length === 0) {
-      res.json({
-        types: {},
-        totalRelationships: 0,
+    // One relationship per pair, whichever way it was stored
+    const [existing] = await store.relationships.findPairs([
+      { memory_id, related_memory_id },
+      { memory_id: related_memory_id, related_memory_id: memory_id },
+    ]);
+
+    if (existing) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'A relationship between these memories already exists; update it with PATCH.',
+        relationship_id: existing.id,
       });
+      tracker.finish(false);
       return;
     }
 
-    // Get relationships for user's memories
-    const { data: relationships, error: relError } = await supabase
-      .from('memory_relationships')
-      .select('relationship_type, strength')
-      .in('memory_id', memoryIds);
+    const relationship = await store.relationships.insert({
+      memory_id,
+      related_memory_id,
+      relationship_type: body.relationship_type,
+      strength: body.strength ?? 1,
+      explanation: body.explanation ?? '',
+      source: 'user',
+      user_id: user.id,
+    });
+
+    tracker.finish(true);
+    logger.info('Relationship created', { relationshipId: relationship.id, userId: user.id });
 
-    if (relError) throw relError;
+    res.status(201).json(relationship);
+  } catch (error: any) {
+    tracker.finish(false);
+    logger.error('Error creating relationship', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to create relationship.',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/relationships/detect/:memoryId
+ * Re-run relationship detection for one memory against the memories that
+ * preceded it. Runs as a background job; poll /api/v1/jobs/:id for the result.
+ */
+router.post('/detect/:memoryId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { memoryId } = req.params;
+
+    if (!relationshipConfig.enabled) {
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Relationship detection is disabled.',
+      });
+      return;
+    }
+
+    const memory = await store.memories.getById(user.id, memoryId);
+
+    if (!memory) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Memory not found.',
+      });
+      return;
+    }
+
+    const job = await queueRelationshipDetection(memoryId, user.id);
+
+    res.status(202).json({
+      memory_id: memoryId,
+      job,
+    });
+  } catch (error: any) {
+    logger.error('Error queueing relationship detection', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to queue relationship detection.',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/relationships/backfill
+ * Start an account-wide backfill that re-runs detection over existing
+ * memories, oldest first. Only one backfill runs per user at a time; if one
+ * is already queued or running it is returned instead.
+ *
+ * Body: project_id (limit to one project), only_unlinked (skip memories that
+ * already have relationships)
+ */
+router.post('/backfill', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { project_id, only_unlinked } = req.body ?? {};
+
+    if (!relationshipConfig.enabled) {
+      res.status(503).json({
+        error: 'Service Unavailable',
+        message: 'Relationship detection is disabled.',
+      });
+      return;
+    }
+
+    if (project_id !== undefined && typeof project_id !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'project_id must be a string.',
+      });
+      return;
+    }
+
+    if (only_unlinked !== undefined && typeof only_unlinked !== 'boolean') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'only_unlinked must be a boolean.',
+      });
+      return;
+    }
+
+    const { job, existing } = await startBackfill(user.id, {
+      projectId: project_id,
+      onlyUnlinked: only_unlinked,
+    });
+
+    res.status(existing ? 200 : 202).json({
+      existing,
+      job,
+    });
+  } catch (error: any) {
+    logger.error('Error starting relationship backfill', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to start relationship backfill.',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/relationships/backfill
+ * Get the user's most recent backfill job and its progress
+ */
+router.get('/backfill', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const [job] = await jobStore.list(user.id, { type: RELATIONSHIP_BACKFILL_JOB, limit: 1 });
+
+    if (!job) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'No relationship backfill has been started.',
+      });
+      return;
+    }
+
+    res.json(job);
+  } catch (error: any) {
+    logger.error('Error fetching relationship backfill', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve relationship backfill.',
+    });
+  }
+});
+
+/**
+ * GET /api/v1/relationships/types
+ * Get relationship statistics by type for the authenticated user, with
+ * detection precision from feedback and the calibrated strength thresholds
+ */
+router.get('/types', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+
+    // Get relationships for user's memories and the user's judgements of them
+    const [relationships, feedback, thresholds] = await Promise.all([
+      store.relationships.listForUser(user.id),
+      store.feedback.list(user.id),
+      getStrengthThresholds(user.id),
+    ]);
 
     // Aggregate by type
     const typeStats: Record<string, { count: number; avgStrength: number }> = {};
 
-    for (const rel of relationships || []) {
+    for (const rel of relationships) {
       if (!typeStats[rel.relationship_type]) {
         typeStats[rel.relationship_type] = { count: 0, avgStrength: 0 };
       }
@@ -257,7 +465,11 @@ router.get('/types', async (req: Request, res: Response): Promise<void> => {
 
     res.json({
       types: typeStats,
-      totalRelationships: relationships?.length || 0,
+      totalRelationships: relationships.length,
+      // Per detected type, from accept/reject/retype feedback
+      precision: precisionByType(feedback),
+      // Minimum strength detection applies for this user
+      thresholds,
     });
   } catch (error: any) {
     logger.error('Error fetching relationship types', { error: error.message });
@@ -268,6 +480,289 @@ router.get('/types', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+/**
+ * GET /api/v1/relationships/contradictions
+ * Unresolved contradicting memory pairs, strongest first
+ *
+ * Query: project_id (either memory in the project), limit (default 50, max 200)
+ */
+router.get('/contradictions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { project_id, limit = '50' } = req.query;
+
+    const contradictions = await listContradictions(user.id, {
+      projectId: project_id as string | undefined,
+      limit: Math.min(parseInt(limit as string) || 50, 200),
+    });
+
+    res.json({
+      contradictions,
+      count: contradictions.length,
+    });
+  } catch (error: any) {
+    logger.error('Error fetching contradictions', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve contradictions.',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/relationships/contradictions/:relationshipId/resolve
+ * Resolve a contradiction. Memory a is the edge's memory_id, b its
+ * related_memory_id.
+ *
+ * Body: resolution (keep_a|keep_b|merge|both_valid), text (merged text, for merge)
+ */
+router.post('/contradictions/:relationshipId/resolve', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = req.user!;
+    const { relationshipId } = req.params;
+    const { resolution, text } = req.body ?? {};
+
+    if (!CONTRADICTION_RESOLUTIONS.includes(resolution)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `resolution must be one of: ${CONTRADICTION_RESOLUTIONS.join(', ')}.`,
+      });
+      return;
+    }
+
+    if (resolution === 'merge') {
+      const textError = checkMemoryInput({ text });
+      if (textError) {
+        res.status(400).json({
+          error: 'Bad Request',
+          message: `merge requires the merged text: ${textError.message}`,
+        });
+        return;
+      }
+    }
+
+    const relationship = await store.relationships.getOwner(relationshipId);
+
+    if (!relationship || relationship.relationship_type !== 'contradicts') {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Contradiction not found.',
+      });
+      return;
+    }
+
+    if (relationship.user_id !== user.id) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to resolve this contradiction.',
+      });
+      return;
+    }
+
+    if (relationship.resolution) {
+      res.status(409).json({
+        error: 'Conflict',
+        message: `Contradiction already resolved (${relationship.resolution}).`,
+      });
+      return;
+    }
+
+    const result = await resolveContradiction(user.id, relationship, resolution, text?.trim());
+    res.json(result);
+  } catch (error: any) {
+    logger.error('Error resolving contradiction', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to resolve contradiction.',
+    });
+  }
+});
+
+/**
+ * PATCH /api/v1/relationships/:relationshipId
+ * Correct a relationship's type, strength or explanation. The edge becomes
+ * user-curated (source "user"), so re-detection no longer touches it.
+ */
+router.patch('/:relationshipId', async (req: Request, res: Response): Promise<void> => {
+  const tracker = new DBMetricsTracker('update', 'memory_relationships');
+
+  try {
+    const user = req.user!;
+    const { relationshipId } = req.params;
+    const body = req.body ?? {};
+
+    const fieldError = checkRelationshipFields(body, true);
+    if (fieldError) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: fieldError,
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    const updates: RelationshipUpdate = { source: 'user' };
+    if (body.relationship_type !== undefined) updates.relationship_type = body.relationship_type;
+    if (body.strength !== undefined) updates.strength = body.strength;
+    if (body.explanation !== undefined) updates.explanation = body.explanation;
+
+    if (Object.keys(updates).length === 1) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'Provide at least one of relationship_type, strength or explanation.',
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    // Verify the relationship belongs to a memory owned by the user
+    const relationship = await store.relationships.getOwner(relationshipId);
+
+    if (!relationship) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Relationship not found.',
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    if (relationship.user_id !== user.id) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to update this relationship.',
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    // Correcting a detected relationship judges it: retyped, or accepted
+    if (relationship.source === 'ai') {
+      const retyped = updates.relationship_type !== undefined &&
+        updates.relationship_type !== relationship.relationship_type;
+      await recordFeedback(relationship, retyped ? 'retype' : 'accept', retyped ? updates.relationship_type : null);
+    }
+
+    const updated = await store.relationships.update(relationshipId, updates);
+
+    tracker.finish(true);
+    logger.info('Relationship updated', { relationshipId, userId: user.id });
+
+    res.json(updated);
+  } catch (error: any) {
+    tracker.finish(false);
+    logger.error('Error updating relationship', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to update relationship.',
+    });
+  }
+});
+
+/**
+ * POST /api/v1/relationships/:relationshipId/feedback
+ * Judge a detected relationship. accept keeps it as user-curated, reject
+ * deletes it (detection won't recreate the pair) and retype changes its type.
+ * Feedback feeds the precision stats and strength calibration.
+ *
+ * Body: verdict (accept|reject|retype), relationship_type (for retype)
+ */
+router.post('/:relationshipId/feedback', async (req: Request, res: Response): Promise<void> => {
+  const tracker = new DBMetricsTracker('insert', 'relationship_feedback');
+
+  try {
+    const user = req.user!;
+    const { relationshipId } = req.params;
+    const { verdict, relationship_type } = req.body ?? {};
+
+    if (!FEEDBACK_VERDICTS.includes(verdict)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `verdict must be one of: ${FEEDBACK_VERDICTS.join(', ')}.`,
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    if (verdict === 'retype' && !RELATIONSHIP_TYPES.includes(relationship_type)) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `retype requires relationship_type, one of: ${RELATIONSHIP_TYPES.join(', ')}.`,
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    const relationship = await store.relationships.getOwner(relationshipId);
+
+    if (!relationship) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Relationship not found.',
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    if (relationship.user_id !== user.id) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'You do not have permission to judge this relationship.',
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    if (relationship.source !== 'ai') {
+      res.status(409).json({
+        error: 'Conflict',
+        message: 'Feedback applies to detected relationships; this one is user-curated.',
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    if (verdict === 'retype' && relationship_type === relationship.relationship_type) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'relationship_type must differ from the detected type.',
+      });
+      tracker.finish(false);
+      return;
+    }
+
+    const feedback = await recordFeedback(
+      relationship,
+      verdict as FeedbackVerdict,
+      verdict === 'retype' ? relationship_type : null
+    );
+
+    let updated = null;
+    if (verdict === 'reject') {
+      await store.relationships.delete(relationshipId);
+    } else {
+      updated = await store.relationships.update(relationshipId, {
+        ...(verdict === 'retype' && { relationship_type }),
+        source: 'user',
+      });
+    }
+
+    tracker.finish(true);
+
+    res.status(201).json({
+      feedback,
+      relationship: updated,
+    });
+  } catch (error: any) {
+    tracker.finish(false);
+    logger.error('Error recording relationship feedback', { error: error.message });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to record feedback.',
+    });
+  }
+});
+
 /**
  * DELETE /api/v1/relationships/:relationshipId
  * Delete a specific relationship
@@ -280,17 +775,9 @@ router.delete('/:relationshipId', async (req: Request, res: Response): Promise<v
     const { relationshipId } = req.params;
 
     // Verify the relationship belongs to a memory owned by the user
-    const { data: relationship, error: fetchError } = await supabase
-      .from('memory_relationships')
-      .select(`
-        id,
-        memory_id,
-        memories!memory_relationships_memory_id_fkey(user_id)
-      `)
-      .eq('id', relationshipId)
-      .single();
-
-    if (fetchError || !relationship) {
+    const relationship = await store.relationships.getOwner(relationshipId);
+
+    if (!relationship) {
       res.status(404).json({
         error: 'Not Found',
         message: 'Relationship not found.',
@@ -300,8 +787,7 @@ router.delete('/:relationshipId', async (req: Request, res: Response): Promise<v
     }
 
     // Check ownership
-    const memoryData = relationship.memories as any;
-    if (memoryData.user_id !== user.id) {
+    if (relationship.user_id !== user.id) {
       res.status(403).json({
         error: 'Forbidden',
         message: 'You do not have permission to delete this relationship.',
@@ -310,13 +796,13 @@ router.delete('/:relationshipId', async (req: Request, res: Response): Promise<v
       return;
     }
 
-    // Delete the relationship
-    const { error: deleteError } = await supabase
-      .from('memory_relationships')
-      .delete()
-      .eq('id', relationshipId);
+    // Deleting a detected relationship rejects it, so detection won't recreate it
+    if (relationship.source === 'ai') {
+      await recordFeedback(relationship, 'reject');
+    }
 
-    if (deleteError) throw deleteError;
+    // Delete the relationship
+    await store.relationships.delete(relationshipId);
 
     tracker.finish(true);
 
@@ -0,0 +1,156 @@
+/**
+ * Server Startup
+ *
+ * Runs RecallBricks in one of two modes:
+ * - http: the Express app (REST API, and MCP at /mcp) on PORT
+ * - stdio: the MCP server on stdin/stdout, with no HTTP listener
+ *
+ * Both run the background job worker and the trash purge, and shut down
+ * gracefully.
+ */
+
+import dotenv from 'dotenv';
+import { app } from './app.js';
+import { closeMcpSessions } from './routes/mcp.js';
+import { startStdioMcpServer } from './mcp/server.js';
+import { logger } from './utils/logger.js';
+import { store } from './storage/index.js';
+import { jobQueue } from './services/jobQueue.js';
+import { startTrashPurge, stopTrashPurge } from './services/trash.js';
+import { assertStorableEmbeddings } from './services/embeddings.js';
+
+// Load environment variables
+dotenv.config();
+
+const PORT = parseInt(process.env.PORT || '8080');
+const NODE_ENV = process.env.NODE_ENV || 'development';
+
+export type ServerMode = 'http' | 'stdio';
+
+// ------- Server Startup -------
+let server: any;
+
+async function startServer(mode: ServerMode) {
+  try {
+    assertStorableEmbeddings(store.embeddingDimensions);
+
+    // Test database connection
+    logger.info('Testing database connection...');
+    const { connected: dbConnected } = await store.checkHealth();
+
+    if (!dbConnected) {
+      logger.warn('Database connection failed, but starting server anyway (will use circuit breaker)');
+    }
+
+    // Start background job worker
+    jobQueue.start();
+    startTrashPurge();
+
+    if (mode === 'stdio') {
+      await startStdioMcpServer();
+      // The client closing stdin ends the session
+      process.stdin.on('end', () => gracefulShutdown('STDIN_CLOSED'));
+      return;
+    }
+
+    // Start HTTP server
+    server = app.listen(PORT, () => {
+      logger.info('RecallBricks API v2.0.0 started successfully', {
+        port: PORT,
+        environment: NODE_ENV,
+        database: dbConnected ? 'connected' : 'disconnected',
+        storageBackend: store.name,
+        features: {
+          circuitBreaker: true,
+          rateLimiting: true,
+          structuredLogging: true,
+          healthChecks: true,
+          metrics: true,
+        },
+      });
+    });
+  } catch (error: any) {
+    logger.error('Failed to start server', {
+      error: error.message,
+      stack: error.stack,
+    });
+    process.exit(1);
+  }
+}
+
+// ------- Graceful Shutdown -------
+let isShuttingDown = false;
+
+async function gracefulShutdown(signal: string) {
+  if (isShuttingDown) {
+    logger.warn('Shutdown already in progress, forcing exit...');
+    process.exit(1);
+  }
+
+  isShuttingDown = true;
+
+  logger.info(`Received ${signal}, starting graceful shutdown...`);
+
+  // Stop accepting new connections; resolves once in-flight requests finish
+  const serverClosed = new Promise<void>(resolve => {
+    if (!server) return resolve();
+    server.close(() => {
+      logger.info('HTTP server closed');
+      resolve();
+    });
+  });
+
+  // Give active requests time to complete (30 seconds)
+  const shutdownTimeout = setTimeout(() => {
+    logger.error('Shutdown timeout exceeded, forcing exit');
+    process.exit(1);
+  }, 30000);
+
+  try {
+    stopTrashPurge();
+    await closeMcpSessions();
+
+    // Let running jobs finish (or release them) while requests complete
+    await Promise.all([serverClosed, jobQueue.stop()]);
+
+    clearTimeout(shutdownTimeout);
+    logger.info('Graceful shutdown complete');
+    process.exit(0);
+  } catch (error: any) {
+    logger.error('Error during shutdown', {
+      error: error.message,
+    });
+    process.exit(1);
+  }
+}
+
+/**
+ * Start the server in the given mode and shut it down on signals and
+ * uncaught errors
+ */
+export async function runServer(mode: ServerMode): Promise<void> {
+  // Handle shutdown signals
+  process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+  process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+
+  // Handle uncaught errors
+  process.on('uncaughtException', (error: Error) => {
+    logger.error('Uncaught exception', {
+      error: error.message,
+      stack: error.stack,
+    });
+    gracefulShutdown('UNCAUGHT_EXCEPTION');
+  });
+
+  process.on('unhandledRejection', (reason: any) => {
+    logger.error('Unhandled rejection', {
+      reason: reason?.message || String(reason),
+      stack: reason?.stack,
+    });
+    gracefulShutdown('UNHANDLED_REJECTION');
+  });
+
+  logger.info('Storage backend loaded', { backend: store.name });
+
+  await startServer(mode);
+}
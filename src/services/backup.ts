@@ -0,0 +1,455 @@
+/**
+ * Account Backup Service
+ *
+ * Serializes a user's memories and relationships to JSONL records and
+ * restores them, remapping IDs where they cannot be kept.
+ *
+ * Export format (one JSON object per line):
+ *   {"type":"header","version":1,...}
+ *   {"type":"memory",...}        one per memory, oldest first
+ *   {"type":"relationship",...}  one per relationship
+ *   {"type":"footer","memories":n,"relationships":m}
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  store,
+  MemoryRecord,
+  NewMemory,
+  NewRelationship,
+  CONTRADICTION_RESOLUTIONS,
+  RELATIONSHIP_TYPES,
+  parseEmbedding,
+  relationshipPairKey,
+} from '../storage/index.js';
+import { embeddingProvider, generateEmbeddings, embeddingColumns } from './embeddings.js';
+import { checkMemoryInput } from '../middleware/validation.js';
+import { chunk } from '../utils/batch.js';
+import { textHash } from '../utils/text.js';
+import { logger } from '../utils/logger.js';
+import {
+  ContradictionResolution,
+  MemoryRelationship,
+  RelationshipSource,
+  RelationshipType,
+} from '../types/recallbricks.js';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+const EXPORT_PAGE_SIZE = 500;
+const IMPORT_CHUNK_SIZE = 100;
+
+// Memory ids are Postgres uuids; one malformed id would fail the whole owner lookup
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ExportHeader {
+  type: 'header';
+  version: number;
+  exported_at: string;
+  user_id: string;
+  includes_embeddings: boolean;
+}
+
+export interface ExportedMemory {
+  type: 'memory';
+  id: string;
+  text: string;
+  source: string;
+  project_id: string;
+  tags: string[];
+  metadata: Record<string, any> | null;
+  created_at: string;
+  updated_at: string;
+  embedding_provider: string | null;
+  embedding_model: string | null;
+  embedding_dim: number | null;
+  embedding?: number[] | null;
+}
+
+export interface ExportedRelationship {
+  type: 'relationship';
+  id: string;
+  memory_id: string;
+  related_memory_id: string;
+  relationship_type: RelationshipType;
+  strength: number;
+  explanation: string;
+  // Absent in older exports (treated as 'ai')
+  source?: RelationshipSource;
+  // Set on resolved contradictions
+  resolution?: ContradictionResolution | null;
+  resolved_at?: string | null;
+  created_at: string;
+}
+
+export interface ExportFooter {
+  type: 'footer';
+  memories: number;
+  relationships: number;
+}
+
+export type ExportRecord = ExportHeader | ExportedMemory | ExportedRelationship | ExportFooter;
+
+export type ImportConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface ImportSummary {
+  memories: { created: number; overwritten: number; skipped: number; failed: number };
+  relationships: { created: number; skipped: number; failed: number };
+  // Exported id -> new id, for memories that could not keep their id
+  id_map: Record<string, string>;
+  errors: Array<{ line: number; message: string }>;
+}
+
+function exportMemory(memory: MemoryRecord, includeEmbeddings: boolean): ExportedMemory {
+  return {
+    type: 'memory',
+    id: memory.id,
+    text: memory.text,
+    source: memory.source,
+    project_id: memory.project_id,
+    tags: memory.tags || [],
+    metadata: memory.metadata ?? null,
+    created_at: memory.created_at,
+    updated_at: memory.updated_at,
+    embedding_provider: memory.embedding_provider ?? null,
+    embedding_model: memory.embedding_model ?? null,
+    embedding_dim: memory.embedding_dim ?? null,
+    ...(includeEmbeddings && { embedding: parseEmbedding(memory.embedding) }),
+  };
+}
+
+function exportRelationship(rel: MemoryRelationship): ExportedRelationship {
+  return {
+    type: 'relationship',
+    id: rel.id,
+    memory_id: rel.memory_id,
+    related_memory_id: rel.related_memory_id,
+    relationship_type: rel.relationship_type,
+    strength: rel.strength,
+    explanation: rel.explanation,
+    source: rel.source,
+    resolution: rel.resolution ?? null,
+    resolved_at: rel.resolved_at ?? null,
+    created_at: rel.created_at,
+  };
+}
+
+/**
+ * Stream every export record for a user. Memories are read a page at a
+ * time so large accounts are never held in memory at once.
+ */
+export async function* exportAccount(
+  userId: string,
+  options: { includeEmbeddings?: boolean } = {}
+): AsyncGenerator<ExportRecord> {
+  const includeEmbeddings = !!options.includeEmbeddings;
+
+  yield {
+    type: 'header',
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: new Date().toISOString(),
+    user_id: userId,
+    includes_embeddings: includeEmbeddings,
+  };
+
+  let memoryCount = 0;
+  const memoryIds: string[] = [];
+  let after: { value: string | number; id: string } | undefined;
+
+  do {
+    const page = await store.memories.listPage(userId, {
+      sort: 'created',
+      order: 'asc',
+      limit: EXPORT_PAGE_SIZE,
+      after,
+    });
+
+    for (const memory of page.memories) {
+      memoryIds.push(memory.id);
+      memoryCount++;
+      yield exportMemory(memory, includeEmbeddings);
+    }
+
+    const last = page.memories[page.memories.length - 1];
+    after = page.hasMore && last ? { value: last.created_at, id: last.id } : undefined;
+  } while (after);
+
+  let relationshipCount = 0;
+  for (const ids of chunk(memoryIds, EXPORT_PAGE_SIZE)) {
+    for (const rel of await store.relationships.listForMemories(ids)) {
+      relationshipCount++;
+      yield exportRelationship(rel);
+    }
+  }
+
+  yield { type: 'footer', memories: memoryCount, relationships: relationshipCount };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+interface ParsedImport {
+  memories: Array<{ line: number; record: ExportedMemory }>;
+  relationships: Array<{ line: number; record: ExportedRelationship }>;
+  errors: Array<{ line: number; message: string }>;
+}
+
+function parseImportLines(lines: string[]): ParsedImport {
+  const parsed: ParsedImport = { memories: [], relationships: [], errors: [] };
+
+  lines.forEach((raw, i) => {
+    const line = i + 1;
+    if (!raw.trim()) return;
+
+    let record: any;
+    try {
+      record = JSON.parse(raw);
+    } catch {
+      parsed.errors.push({ line, message: 'Invalid JSON' });
+      return;
+    }
+
+    switch (record?.type) {
+      case 'header':
+        if (record.version > EXPORT_FORMAT_VERSION) {
+          parsed.errors.push({ line, message: `Unsupported export version ${record.version}` });
+        }
+        return;
+      case 'footer':
+        return;
+      case 'memory': {
+        const error = typeof record.id !== 'string'
+          ? 'Memory id is required'
+          : !UUID_PATTERN.test(record.id)
+            ? 'Memory id must be a UUID'
+            : checkMemoryInput(record)?.message;
+        if (error) {
+          parsed.errors.push({ line, message: error });
+        } else {
+          parsed.memories.push({ line, record });
+        }
+        return;
+      }
+      case 'relationship':
+        if (typeof record.memory_id !== 'string' || typeof record.related_memory_id !== 'string') {
+          parsed.errors.push({ line, message: 'Relationship memory_id and related_memory_id are required' });
+        } else if (!RELATIONSHIP_TYPES.includes(record.relationship_type)) {
+          parsed.errors.push({ line, message: `Unknown relationship_type: ${record.relationship_type}` });
+        } else if (typeof record.strength !== 'number' || record.strength < 0 || record.strength > 1) {
+          parsed.errors.push({ line, message: 'Relationship strength must be between 0 and 1' });
+        } else if (record.source !== undefined && record.source !== 'ai' && record.source !== 'user') {
+          parsed.errors.push({ line, message: `Unknown relationship source: ${record.source}` });
+        } else if (record.resolution != null && !CONTRADICTION_RESOLUTIONS.includes(record.resolution)) {
+          parsed.errors.push({ line, message: `Unknown relationship resolution: ${record.resolution}` });
+        } else {
+          parsed.relationships.push({ line, record });
+        }
+        return;
+      default:
+        parsed.errors.push({ line, message: `Unknown record type: ${record?.type}` });
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * The exported vector, if it has the size this deployment embeds and stores;
+ * other vectors (another model, or a corrupt line) would fail the whole
+ * insert chunk, so those memories are re-embedded instead
+ */
+function importedEmbedding(record: ExportedMemory) {
+  const embedding = record.embedding;
+  if (!Array.isArray(embedding) || embedding.length === 0 || !embedding.every(v => typeof v === 'number')) {
+    return null;
+  }
+
+  const dimensions = embeddingProvider?.dimensions ?? store.embeddingDimensions;
+  if (dimensions !== null && embedding.length !== dimensions) {
+    return null;
+  }
+
+  return {
+    embedding,
+    embedding_provider: record.embedding_provider,
+    embedding_model: record.embedding_model,
+    embedding_dim: embedding.length,
+  };
+}
+
+/**
+ * Restore an export into a user's account.
+ *
+ * Memories keep their exported id when it is free. An id already used by
+ * this user is resolved by the conflict strategy (skip keeps the existing
+ * memory, overwrite replaces it, duplicate imports a copy under a new id);
+ * an id owned by another user always gets a new id. Relationships are
+ * re-pointed through the resulting id map and existing pairs are skipped.
+ */
+export async function importAccount(
+  userId: string,
+  lines: string[],
+  strategy: ImportConflictStrategy
+): Promise<ImportSummary> {
+  const { memories, relationships, errors } = parseImportLines(lines);
+  const summary: ImportSummary = {
+    memories: { created: 0, overwritten: 0, skipped: 0, failed: 0 },
+    relationships: { created: 0, skipped: 0, failed: 0 },
+    id_map: {},
+    errors,
+  };
+
+  const owners = await store.memories.findOwners(memories.map(m => m.record.id));
+
+  // Exported id -> id in this account, for every memory that ends up present
+  const idMap = new Map<string, string>();
+  const inserts: Array<{ line: number; exportedId: string; row: NewMemory }> = [];
+  const overwrites: Array<{ line: number; record: ExportedMemory }> = [];
+
+  for (const { line, record } of memories) {
+    const owner = owners.get(record.id);
+    const ownConflict = owner === userId;
+
+    if (ownConflict && strategy === 'skip') {
+      idMap.set(record.id, record.id);
+      summary.memories.skipped++;
+      continue;
+    }
+
+    if (ownConflict && strategy === 'overwrite') {
+      overwrites.push({ line, record });
+      continue;
+    }
+
+    // Keep the exported id unless it is taken (or duplicates were requested)
+    const id = owner === undefined && strategy !== 'duplicate' ? record.id : randomUUID();
+    if (id !== record.id) {
+      summary.id_map[record.id] = id;
+    }
+
+    inserts.push({
+      line,
+      exportedId: record.id,
+      row: {
+        id,
+        user_id: userId,
+        text: record.text,
+        source: record.source || 'api',
+        project_id: record.project_id || 'default',
+        tags: record.tags || [],
+        metadata: record.metadata ?? null,
+        text_hash: textHash(record.metadata?.original_text ?? record.text),
+        created_at: record.created_at,
+        ...importedEmbedding(record),
+      },
+    });
+  }
+
+  // Re-embed memories exported without (usable) vectors
+  const missing = inserts.filter(entry => !entry.row.embedding).map(entry => entry.row);
+  const embeddings = await generateEmbeddings(missing.map(row => row.text), IMPORT_CHUNK_SIZE);
+  missing.forEach((row, i) => Object.assign(row, embeddingColumns(embeddings[i])));
+
+  for (const entries of chunk(inserts, IMPORT_CHUNK_SIZE)) {
+    try {
+      await store.memories.insertMany(entries.map(entry => entry.row));
+      for (const entry of entries) {
+        idMap.set(entry.exportedId, entry.row.id!);
+      }
+      summary.memories.created += entries.length;
+    } catch (error: any) {
+      logger.error('Failed to import memory chunk', { userId, error: error.message });
+      for (const entry of entries) {
+        delete summary.id_map[entry.exportedId];
+        summary.errors.push({ line: entry.line, message: error.message });
+      }
+      summary.memories.failed += entries.length;
+    }
+  }
+
+  for (const { line, record } of overwrites) {
+    try {
+      const embedding = importedEmbedding(record)
+        ?? embeddingColumns((await generateEmbeddings([record.text]))[0]);
+
+      // Importing a memory that is in the trash brings it back
+      await store.memories.restore(userId, record.id);
+      await store.memories.update(userId, record.id, {
+        text: record.text,
+        source: record.source || 'api',
+        project_id: record.project_id || 'default',
+        tags: record.tags || [],
+        metadata: record.metadata ?? null,
+        text_hash: textHash(record.metadata?.original_text ?? record.text),
+        ...embedding,
+      });
+      idMap.set(record.id, record.id);
+      summary.memories.overwritten++;
+    } catch (error: any) {
+      summary.errors.push({ line, message: error.message });
+      summary.memories.failed++;
+    }
+  }
+
+  // Relationships between memories that are now present in the account
+  const candidates: Array<{ line: number; rel: NewRelationship }> = [];
+  for (const { line, record } of relationships) {
+    const memoryId = idMap.get(record.memory_id);
+    const relatedId = idMap.get(record.related_memory_id);
+
+    if (!memoryId || !relatedId) {
+      summary.errors.push({ line, message: 'Relationship references a memory that was not imported' });
+      summary.relationships.failed++;
+      continue;
+    }
+
+    candidates.push({
+      line,
+      rel: {
+        memory_id: memoryId,
+        related_memory_id: relatedId,
+        relationship_type: record.relationship_type,
+        strength: record.strength,
+        explanation: record.explanation || '',
+        source: record.source || 'ai',
+        resolution: record.resolution ?? null,
+        resolved_at: record.resolved_at ?? null,
+        user_id: userId,
+      },
+    });
+  }
+
+  for (const entries of chunk(candidates, IMPORT_CHUNK_SIZE)) {
+    try {
+      const existing = await store.relationships.findExistingPairs(entries.map(entry => entry.rel));
+      const fresh = entries.filter(entry => {
+        const key = relationshipPairKey(entry.rel.memory_id, entry.rel.related_memory_id);
+        if (existing.has(key)) return false;
+        // Also drop repeats within the import itself
+        existing.add(key);
+        return true;
+      });
+
+      await store.relationships.insertMany(fresh.map(entry => entry.rel));
+      summary.relationships.created += fresh.length;
+      summary.relationships.skipped += entries.length - fresh.length;
+    } catch (error: any) {
+      logger.error('Failed to import relationship chunk', { userId, error: error.message });
+      for (const entry of entries) {
+        summary.errors.push({ line: entry.line, message: error.message });
+      }
+      summary.relationships.failed += entries.length;
+    }
+  }
+
+  logger.info('Account import completed', {
+    userId,
+    strategy,
+    memories: summary.memories,
+    relationships: summary.relationships,
+    errors: summary.errors.length,
+  });
+
+  return summary;
+}
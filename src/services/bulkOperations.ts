@@ -0,0 +1,96 @@
+/**
+ * Bulk Memory Operations
+ *
+ * Applies one action to every memory matching a selection (ids, attribute
+ * filters, full-text query): move to the trash, add or remove tags, move to
+ * another project, or set metadata keys. Matching ids are resolved first,
+ * then the action runs in chunks of MEMORY_BULK_CHUNK_SIZE, one storage
+ * query per chunk. A dry run only counts the matches.
+ */
+
+import { store, BulkMemoryChanges, MemorySelection } from '../storage/index.js';
+import { chunk } from '../utils/batch.js';
+import { logger } from '../utils/logger.js';
+
+export type BulkActionType = 'delete' | 'add_tags' | 'remove_tags' | 'set_project' | 'set_metadata';
+
+export const BULK_ACTIONS: BulkActionType[] = ['delete', 'add_tags', 'remove_tags', 'set_project', 'set_metadata'];
+
+export interface BulkAction {
+  type: BulkActionType;
+  // add_tags, remove_tags
+  tags?: string[];
+  // set_project
+  project_id?: string;
+  // set_metadata; null values remove the key
+  metadata?: Record<string, any>;
+}
+
+export interface BulkResult {
+  action: BulkActionType;
+  dry_run: boolean;
+  matched: number;
+  // Memories changed (or moved to the trash); 0 for a dry run
+  affected: number;
+  chunks: number;
+  // First matching ids, so a dry run can be checked
+  sample_ids: string[];
+}
+
+const BULK_CHUNK_SIZE = parseInt(process.env.MEMORY_BULK_CHUNK_SIZE || '200');
+const SAMPLE_SIZE = 10;
+
+function changesFor(action: BulkAction): BulkMemoryChanges {
+  switch (action.type) {
+    case 'add_tags':
+      return { addTags: action.tags };
+    case 'remove_tags':
+      return { removeTags: action.tags };
+    case 'set_project':
+      return { projectId: action.project_id };
+    case 'set_metadata':
+      return { metadata: action.metadata };
+    case 'delete':
+      return {};
+  }
+}
+
+export async function runBulkOperation(
+  userId: string,
+  selection: MemorySelection,
+  action: BulkAction,
+  dryRun: boolean
+): Promise<BulkResult> {
+  const ids = await store.memories.selectIds(userId, selection);
+  const chunks = chunk(ids, BULK_CHUNK_SIZE);
+
+  const result: BulkResult = {
+    action: action.type,
+    dry_run: dryRun,
+    matched: ids.length,
+    affected: 0,
+    chunks: chunks.length,
+    sample_ids: ids.slice(0, SAMPLE_SIZE),
+  };
+
+  if (dryRun) {
+    return result;
+  }
+
+  const changes = changesFor(action);
+  for (const batch of chunks) {
+    result.affected += action.type === 'delete'
+      ? await store.memories.trashMany(userId, batch)
+      : await store.memories.bulkUpdate(userId, batch, changes);
+  }
+
+  logger.info('Bulk memory operation completed', {
+    userId,
+    action: action.type,
+    matched: result.matched,
+    affected: result.affected,
+    chunks: result.chunks,
+  });
+
+  return result;
+}
@@ -0,0 +1,179 @@
+/**
+ * Contradiction Resolution
+ *
+ * Unresolved `contradicts` edges are conflicting memory pairs (e.g. "uses
+ * MongoDB" next to "switched to PostgreSQL"). Resolving one keeps a single
+ * memory or merges the pair (either way the dropped memory's text is kept in
+ * the survivor's metadata.superseded), or marks both as valid.
+ */
+
+import { store, MemoryRecord, MemoryUpdate, OwnedRelationship } from '../storage/index.js';
+import { ContradictionResolution } from '../types/recallbricks.js';
+import { mergeMemories } from './deduplication.js';
+import { logger } from '../utils/logger.js';
+
+export type ContradictionMemory = Omit<MemoryRecord, 'embedding'>;
+
+export interface Contradiction {
+  relationship_id: string;
+  strength: number;
+  explanation: string;
+  source: OwnedRelationship['source'];
+  created_at: string;
+  memory_a: ContradictionMemory;
+  memory_b: ContradictionMemory;
+}
+
+export interface ContradictionListOptions {
+  projectId?: string;
+  limit?: number;
+}
+
+export interface ResolutionResult {
+  resolution: ContradictionResolution;
+  relationship_id: string;
+  // The surviving memory (a for merge), or both for both_valid
+  kept: ContradictionMemory[];
+  deleted: string | null;
+}
+
+function withoutEmbedding({ embedding, ...memory }: MemoryRecord): ContradictionMemory {
+  return memory;
+}
+
+/**
+ * The surviving memory's metadata.superseded, with the memory it replaced
+ */
+function superseded(
+  kept: MemoryRecord,
+  dropped: MemoryRecord,
+  resolution: ContradictionResolution,
+  resolvedAt: string
+): Record<string, any>[] {
+  return [
+    ...(kept.metadata?.superseded ?? []),
+    { id: dropped.id, text: dropped.text, resolution, resolved_at: resolvedAt },
+  ];
+}
+
+/**
+ * Unresolved contradictions between the user's memories, strongest first
+ */
+export async function listContradictions(
+  userId: string,
+  options: ContradictionListOptions = {}
+): Promise<Contradiction[]> {
+  const edges = await store.relationships.listForUser(userId, { type: 'contradicts', unresolved: true });
+
+  const memories = new Map(
+    (await store.memories.getMany(userId, [...new Set(edges.flatMap(e => [e.memory_id, e.related_memory_id]))]))
+      .map(memory => [memory.id, withoutEmbedding(memory)])
+  );
+
+  const contradictions: Contradiction[] = [];
+  for (const edge of edges) {
+    const a = memories.get(edge.memory_id);
+    const b = memories.get(edge.related_memory_id);
+    if (!a || !b) continue;
+
+    if (options.projectId && a.project_id !== options.projectId && b.project_id !== options.projectId) {
+      continue;
+    }
+
+    contradictions.push({
+      relationship_id: edge.id,
+      strength: edge.strength,
+      explanation: edge.explanation,
+      source: edge.source,
+      created_at: edge.created_at,
+      memory_a: a,
+      memory_b: b,
+    });
+  }
+
+  return contradictions
+    .sort((x, y) => y.strength - x.strength)
+    .slice(0, options.limit);
+}
+
+/**
+ * Resolve a contradicts edge owned by the user. For merge, memory b is
+ * merged into a (see mergeMemories) with `text` as a's new text; the
+ * resolved edge stays with b in the trash.
+ */
+export async function resolveContradiction(
+  userId: string,
+  relationship: OwnedRelationship,
+  resolution: ContradictionResolution,
+  text?: string
+): Promise<ResolutionResult> {
+  const [a, b] = await Promise.all([
+    store.memories.getById(userId, relationship.memory_id),
+    store.memories.getById(userId, relationship.related_memory_id),
+  ]);
+
+  if (!a || !b) {
+    throw new Error('Contradicting memory no longer exists.');
+  }
+
+  const resolvedAt = new Date().toISOString();
+
+  // Mark the edge first so it stays resolved even if a later step fails
+  await store.relationships.update(relationship.id, {
+    resolution,
+    resolved_at: resolvedAt,
+    // Detection must not overwrite a user's decision
+    source: 'user',
+  });
+
+  if (resolution === 'both_valid') {
+    logger.info('Contradiction resolved', { relationshipId: relationship.id, userId, resolution });
+    return {
+      resolution,
+      relationship_id: relationship.id,
+      kept: [withoutEmbedding(a), withoutEmbedding(b)],
+      deleted: null,
+    };
+  }
+
+  if (resolution === 'merge') {
+    const { memory } = await mergeMemories(userId, a, [b], {
+      text,
+      metadata: { superseded: superseded(a, b, resolution, resolvedAt) },
+    });
+    logger.info('Contradiction resolved', { relationshipId: relationship.id, userId, resolution });
+    return {
+      resolution,
+      relationship_id: relationship.id,
+      kept: [memory],
+      deleted: b.id,
+    };
+  }
+
+  const [kept, dropped] = resolution === 'keep_b' ? [b, a] : [a, b];
+
+  const updates: MemoryUpdate = {
+    metadata: {
+      ...kept.metadata,
+      superseded: superseded(kept, dropped, resolution, resolvedAt),
+    },
+  };
+
+  const updated = await store.memories.update(userId, kept.id, updates);
+  await store.memories.trash(userId, dropped.id);
+
+  logger.info('Contradiction resolved', {
+    relationshipId: relationship.id,
+    userId,
+    resolution,
+    kept: kept.id,
+    deleted: dropped.id,
+  });
+
+  return {
+    resolution,
+    relationship_id: relationship.id,
+    kept: [withoutEmbedding(updated ?? kept)],
+    deleted: dropped.id,
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Memory Deduplication
+ *
+ * Finds an existing memory that a new one duplicates - by exact (normalised)
+ * text hash, then by embedding similarity, within the same project - and
+ * merges memories, moving their relationships to the surviving memory.
+ */
+
+import { store, MemoryRecord, MemoryUpdate } from '../storage/index.js';
+import { CreateMemoryRequest, Memory } from '../types/recallbricks.js';
+import { dedupeConfig } from '../config/dedupe.js';
+import { embeddingColumns, generateEmbedding } from './embeddings.js';
+import { queueRelationshipDetection } from './relationshipDetector.js';
+import { updatedMetadata } from './memoryVersions.js';
+import { textHash } from '../utils/text.js';
+import { logger } from '../utils/logger.js';
+
+export interface DuplicateMatch {
+  memory: Memory;
+  match: 'exact' | 'similar';
+  similarity: number;
+}
+
+export interface MergeOptions {
+  // Replaces the target's text (re-embedded, relationships re-detected)
+  text?: string;
+  // System metadata set on the target, e.g. a contradiction resolution
+  metadata?: Record<string, any>;
+}
+
+export interface MergeResult {
+  memory: Memory;
+  merged: string[];
+  relationships_moved: number;
+}
+
+function withoutEmbedding({ embedding, ...memory }: MemoryRecord): Memory {
+  return memory;
+}
+
+/**
+ * A memory in the project with the same normalised text
+ */
+export async function findExactDuplicate(
+  userId: string,
+  projectId: string,
+  text: string
+): Promise<DuplicateMatch | null> {
+  const existing = await store.memories.findByTextHash(userId, projectId, textHash(text));
+  return existing ? { memory: withoutEmbedding(existing), match: 'exact', similarity: 1 } : null;
+}
+
+/**
+ * The most similar memory in the project, if it reaches the dedupe threshold
+ */
+export async function findSimilarDuplicate(
+  userId: string,
+  projectId: string,
+  embedding: number[]
+): Promise<DuplicateMatch | null> {
+  const [closest] = await store.memories.matchByEmbedding(userId, embedding, {
+    projectId,
+    threshold: dedupeConfig.similarityThreshold,
+    count: 1,
+  });
+
+  if (!closest) return null;
+
+  const { similarity, ...memory } = closest;
+  return { memory, match: 'similar', similarity };
+}
+
+/**
+ * Add the tags and metadata of a duplicate create request to the existing
+ * memory; its text and system metadata (original_text, ...) are kept
+ */
+export async function mergeIntoExisting(
+  userId: string,
+  existing: Memory,
+  request: CreateMemoryRequest
+): Promise<Memory> {
+  const tags = [...new Set([...(existing.tags || []), ...(request.tags || [])])];
+  const metadata = updatedMetadata(existing, { ...existing.metadata, ...request.metadata });
+
+  const unchanged =
+    tags.length === (existing.tags || []).length &&
+    JSON.stringify(metadata) === JSON.stringify(existing.metadata ?? {});
+  if (unchanged) {
+    return existing;
+  }
+
+  const updated = await store.memories.update(userId, existing.id, { tags, metadata });
+  return updated ? withoutEmbedding(updated) : existing;
+}
+
+/**
+ * Merge `sources` into `target`: relationships move to the target, tags are
+ * combined, metadata is combined (the target's values win) with the sources
+ * recorded in metadata.merged_from, and the sources are moved to the trash.
+ */
+export async function mergeMemories(
+  userId: string,
+  target: MemoryRecord,
+  sources: MemoryRecord[],
+  options: MergeOptions = {}
+): Promise<MergeResult> {
+  const mergedAt = new Date().toISOString();
+
+  let relationshipsMoved = 0;
+  for (const source of sources) {
+    relationshipsMoved += await store.relationships.reassign(source.id, target.id);
+  }
+
+  const updates: MemoryUpdate = {
+    tags: [...new Set([target, ...sources].flatMap(memory => memory.tags || []))],
+    metadata: {
+      ...Object.assign({}, ...sources.map(source => source.metadata ?? {})),
+      ...target.metadata,
+      merged_from: [
+        ...(target.metadata?.merged_from ?? []),
+        ...sources.map(source => ({ id: source.id, text: source.text, merged_at: mergedAt })),
+      ],
+      ...options.metadata,
+    },
+  };
+
+  if (options.text) {
+    updates.text = options.text;
+    updates.text_hash = textHash(options.text);
+    updates.metadata = { ...updates.metadata, original_text: options.text, extracted: false };
+    Object.assign(updates, embeddingColumns(await generateEmbedding(options.text)));
+  }
+
+  const updated = await store.memories.update(userId, target.id, updates);
+
+  await store.memories.trashMany(userId, sources.map(source => source.id));
+
+  if (options.text) {
+    await queueRelationshipDetection(target.id, userId).catch(error => {
+      logger.error('Failed to queue relationship detection', { memoryId: target.id, error: error.message });
+    });
+  }
+
+  logger.info('Memories merged', {
+    userId,
+    target: target.id,
+    merged: sources.map(source => source.id),
+    relationshipsMoved,
+  });
+
+  return {
+    memory: withoutEmbedding(updated ?? target),
+    merged: sources.map(source => source.id),
+    relationships_moved: relationshipsMoved,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Embedding Backfill
+ *
+ * Re-embeds memories stored without a vector (embeddings were unavailable
+ * when they were written) or with one from another provider, model or
+ * dimension, so every memory is searchable with the configured provider.
+ * Memories are visited once, in id order; a memory whose embedding fails is
+ * counted and skipped, so running the backfill again retries it.
+ */
+
+import { store, StaleEmbedding } from '../storage/index.js';
+import { embeddingProvider, embeddingColumns, generateEmbeddings, assertStorableEmbeddings } from './embeddings.js';
+import { logger } from '../utils/logger.js';
+
+export interface EmbeddingBackfillOptions {
+  // Only this user's memories; every user's when omitted
+  userId?: string;
+  batchSize: number;
+  // Count the memories that would be re-embedded without embedding them
+  dryRun?: boolean;
+  onProgress?: (summary: EmbeddingBackfillSummary) => void;
+}
+
+export interface EmbeddingBackfillSummary {
+  provider: string;
+  model: string;
+  dimensions: number;
+  // Memories without an embedding from the current model
+  stale: number;
+  embedded: number;
+  failed: number;
+}
+
+export async function backfillEmbeddings(options: EmbeddingBackfillOptions): Promise<EmbeddingBackfillSummary> {
+  if (!embeddingProvider) {
+    throw new Error('No embedding provider configured (set EMBEDDING_PROVIDER)');
+  }
+  assertStorableEmbeddings(store.embeddingDimensions);
+
+  const current = {
+    provider: embeddingProvider.name,
+    model: embeddingProvider.model,
+    dimensions: embeddingProvider.dimensions,
+  };
+  const summary: EmbeddingBackfillSummary = { ...current, stale: 0, embedded: 0, failed: 0 };
+
+  let after: string | undefined;
+  let batch: StaleEmbedding[];
+  do {
+    batch = await store.memories.listStaleEmbeddings(current, {
+      userId: options.userId,
+      after,
+      limit: options.batchSize,
+    });
+    if (batch.length === 0) break;
+
+    summary.stale += batch.length;
+    after = batch[batch.length - 1].id;
+
+    if (!options.dryRun) {
+      const embeddings = await generateEmbeddings(batch.map(memory => memory.text), options.batchSize);
+
+      for (const [i, memory] of batch.entries()) {
+        if (!embeddings[i]) {
+          summary.failed++;
+          continue;
+        }
+        await store.memories.setEmbedding(memory.user_id, memory.id, embeddingColumns(embeddings[i]));
+        summary.embedded++;
+      }
+    }
+
+    options.onProgress?.(summary);
+  } while (batch.length === options.batchSize);
+
+  logger.info('Embedding backfill finished', { ...summary, userId: options.userId, dryRun: options.dryRun ?? false });
+  return summary;
+}
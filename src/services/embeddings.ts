@@ -0,0 +1,333 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable text embedding with:
+ * - OpenAI embeddings API
+ * - Ollama-compatible HTTP embedding servers
+ * - Offline deterministic hashing provider (no network, for tests/local dev)
+ *
+ * Every embedding is returned with the provider, model and dimension that
+ * produced it so they can be recorded alongside the memory.
+ */
+
+import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { Counter, Histogram } from 'prom-client';
+import { embeddingConfig, EmbeddingConfig } from '../config/embeddings.js';
+import { logger } from '../utils/logger.js';
+import { chunk } from '../utils/batch.js';
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+const embeddingRequests = new Counter({
+  name: 'recallbricks_embedding_requests_total',
+  help: 'Total number of embedding requests',
+  labelNames: ['provider', 'status'],
+});
+
+const embeddingLatency = new Histogram({
+  name: 'recallbricks_embedding_latency_seconds',
+  help: 'Embedding provider response latency',
+  labelNames: ['provider'],
+  buckets: [0.01, 0.05, 0.1, 0.5, 1, 2, 5, 10],
+});
+
+// ============================================================================
+// Provider Interface
+// ============================================================================
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly dimensions: number;
+
+  /**
+   * Embed a batch of texts, returning one vector per input in order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+function assertDimensions(provider: EmbeddingProvider, vectors: number[][]): number[][] {
+  for (const vector of vectors) {
+    if (vector.length !== provider.dimensions) {
+      throw new Error(
+        `${provider.name} returned ${vector.length}-dimensional embedding, expected ${provider.dimensions} (check EMBEDDING_DIMENSIONS)`
+      );
+    }
+  }
+  return vectors;
+}
+
+// ============================================================================
+// OpenAI
+// ============================================================================
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(
+    apiKey: string,
+    readonly model: string,
+    readonly dimensions: number,
+    timeout: number
+  ) {
+    this.client = new OpenAI({ apiKey, timeout });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    const vectors = [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    return assertDimensions(this, vectors);
+  }
+}
+
+// ============================================================================
+// Ollama-compatible HTTP
+// ============================================================================
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama';
+
+  constructor(
+    private baseUrl: string,
+    readonly model: string,
+    readonly dimensions: number,
+    private timeout: number
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Ollama embedding request failed: ${response.status} ${body.substring(0, 200)}`);
+    }
+
+    const data = await response.json() as { embeddings?: number[][] };
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error('Ollama embedding response did not contain one embedding per input');
+    }
+
+    return assertDimensions(this, data.embeddings);
+  }
+}
+
+// ============================================================================
+// Local Hashing (offline, deterministic)
+// ============================================================================
+
+/**
+ * Feature-hashing embedding over word unigrams and bigrams. Texts sharing
+ * vocabulary get similar vectors, which is enough for tests and offline use.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+
+  constructor(
+    readonly model: string = 'hashing-v1',
+    readonly dimensions: number = 1536
+  ) {}
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1);
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = this.tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+    ];
+
+    for (const feature of features) {
+      const digest = createHash('sha256').update(feature).digest();
+      const index = digest.readUInt32BE(0) % this.dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      // Bigrams carry less weight than single words
+      vector[index] += sign * (feature.includes(' ') ? 0.5 : 1);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+}
+
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider | null {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(
+        config.openaiApiKey,
+        config.model,
+        config.dimensions,
+        config.requestTimeout
+      );
+    case 'ollama':
+      return new OllamaEmbeddingProvider(
+        config.ollamaBaseUrl,
+        config.model,
+        config.dimensions,
+        config.requestTimeout
+      );
+    case 'local':
+      return new HashingEmbeddingProvider(config.model, config.dimensions);
+    case 'none':
+      return null;
+  }
+}
+
+export const embeddingProvider = createEmbeddingProvider(embeddingConfig);
+
+logger.info('Embedding provider configured', {
+  provider: embeddingProvider?.name ?? 'none',
+  model: embeddingProvider?.model,
+  dimensions: embeddingProvider?.dimensions,
+});
+
+/**
+ * Throw when the configured provider's vectors cannot be stored by a backend
+ * holding `storedDimensions`-sized ones (null: any size). Checked at startup,
+ * since otherwise every insert and search fails with a dimension mismatch.
+ */
+export function assertStorableEmbeddings(storedDimensions: number | null): void {
+  if (!embeddingProvider || storedDimensions === null || embeddingProvider.dimensions === storedDimensions) {
+    return;
+  }
+
+  throw new Error(
+    `${embeddingProvider.name} embeddings (${embeddingProvider.model}) have ${embeddingProvider.dimensions} dimensions ` +
+    `but the database stores ${storedDimensions}; use a ${storedDimensions}-dimensional model or EMBEDDING_PROVIDER=none`
+  );
+}
+
+/**
+ * Embed a batch of texts with the configured provider.
+ * Throws if no provider is configured or the provider fails.
+ */
+export async function embedTexts(texts: string[]): Promise<EmbeddingResult[]> {
+  if (!embeddingProvider) {
+    throw new Error('No embedding provider configured');
+  }
+
+  if (texts.length === 0) {
+    return [];
+  }
+
+  const endTimer = embeddingLatency.startTimer({ provider: embeddingProvider.name });
+
+  try {
+    const vectors = await embeddingProvider.embed(texts);
+    embeddingRequests.inc({ provider: embeddingProvider.name, status: 'success' });
+
+    return vectors.map(embedding => ({
+      embedding,
+      provider: embeddingProvider.name,
+      model: embeddingProvider.model,
+      dimensions: embedding.length,
+    }));
+  } catch (error) {
+    embeddingRequests.inc({ provider: embeddingProvider.name, status: 'error' });
+    throw error;
+  } finally {
+    endTimer();
+  }
+}
+
+/**
+ * Embed a single text. Returns null (and logs) when embeddings are
+ * unavailable so callers can store the memory without a vector.
+ */
+export async function generateEmbedding(text: string): Promise<EmbeddingResult | null> {
+  if (!embeddingProvider) {
+    return null;
+  }
+
+  try {
+    const [result] = await embedTexts([text]);
+    return result;
+  } catch (error: any) {
+    logger.error('Error generating embedding', {
+      provider: embeddingProvider.name,
+      model: embeddingProvider.model,
+      error: error.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Embed many texts in provider-sized batches. Like generateEmbedding, a
+ * failing batch yields nulls (and logs) instead of throwing.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  batchSize: number = 100
+): Promise<Array<EmbeddingResult | null>> {
+  if (!embeddingProvider) {
+    return texts.map(() => null);
+  }
+
+  const results: Array<EmbeddingResult | null> = [];
+
+  for (const batch of chunk(texts, batchSize)) {
+    try {
+      results.push(...await embedTexts(batch));
+    } catch (error: any) {
+      logger.error('Error generating batch embeddings', {
+        provider: embeddingProvider.name,
+        model: embeddingProvider.model,
+        batchSize: batch.length,
+        error: error.message,
+      });
+      results.push(...batch.map(() => null));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Columns recorded on a memory for the embedding that was (or was not) generated
+ */
+export function embeddingColumns(result: EmbeddingResult | null) {
+  return {
+    embedding: result?.embedding ?? null,
+    embedding_provider: result?.provider ?? null,
+    embedding_model: result?.model ?? null,
+    embedding_dim: result?.dimensions ?? null,
+  };
+}
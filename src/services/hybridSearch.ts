@@ -0,0 +1,171 @@
+/**
+ * Hybrid Search Service
+ *
+ * Runs vector similarity and lexical (full-text) retrieval side by side and
+ * fuses the two rankings with weighted Reciprocal Rank Fusion:
+ *
+ *   fused = vectorWeight / (k + vectorRank) + lexicalWeight / (k + lexicalRank)
+ *
+ * Lexical retrieval always runs, so results are still returned when no
+ * embedding provider is configured or the provider is failing.
+ */
+
+import { Counter } from 'prom-client';
+import { store, MemoryFilters, MemoryRecord } from '../storage/index.js';
+import { generateEmbedding } from './embeddings.js';
+import { extractKeywords, anyKeywordQuery } from '../utils/text.js';
+import { logger } from '../utils/logger.js';
+import { Memory } from '../types/recallbricks.js';
+
+const hybridSearches = new Counter({
+  name: 'recallbricks_hybrid_searches_total',
+  help: 'Total number of hybrid searches',
+  labelNames: ['vector_available'],
+});
+
+export interface HybridSearchOptions {
+  limit: number;
+  vectorWeight: number;
+  lexicalWeight: number;
+  // RRF damping constant - higher values flatten the rank contribution
+  rrfK: number;
+  // Minimum cosine similarity for vector candidates
+  threshold: number;
+}
+
+export const HYBRID_SEARCH_DEFAULTS: HybridSearchOptions = {
+  limit: 10,
+  vectorWeight: 1,
+  lexicalWeight: 1,
+  rrfK: 60,
+  threshold: 0.3,
+};
+
+export interface HybridScoreBreakdown {
+  fused: number;
+  vector: { rank: number; similarity: number; contribution: number } | null;
+  lexical: { rank: number; score: number; matchedKeywords: string[]; contribution: number } | null;
+}
+
+export type HybridSearchHit = Memory & { score: HybridScoreBreakdown };
+
+export interface HybridSearchResult {
+  results: HybridSearchHit[];
+  keywords: string[];
+  vectorAvailable: boolean;
+  vectorCandidates: number;
+  lexicalCandidates: number;
+}
+
+/**
+ * Score a memory against the query keywords: 1 + ln(tf) per matched keyword
+ */
+export function lexicalScore(text: string, keywords: string[]): { score: number; matched: string[] } {
+  const words = text.toLowerCase().replace(/[^\w\s]/g, ' ').split(/\s+/);
+  const matched: string[] = [];
+  let score = 0;
+
+  for (const keyword of keywords) {
+    const tf = words.filter(word => word === keyword || word.startsWith(keyword)).length;
+    if (tf > 0) {
+      matched.push(keyword);
+      score += 1 + Math.log(tf);
+    }
+  }
+
+  return { score, matched };
+}
+
+function candidatePoolSize(limit: number): number {
+  return Math.min(Math.max(limit * 4, 20), 200);
+}
+
+function withoutEmbedding(memory: MemoryRecord): Memory {
+  const { embedding, ...rest } = memory;
+  return rest;
+}
+
+export async function hybridSearch(
+  userId: string,
+  query: string,
+  overrides: Partial<HybridSearchOptions> = {},
+  filters: MemoryFilters = {}
+): Promise<HybridSearchResult> {
+  const options = { ...HYBRID_SEARCH_DEFAULTS, ...overrides };
+  const poolSize = candidatePoolSize(options.limit);
+  const keywords = extractKeywords(query, 20);
+
+  const [queryEmbedding, lexicalMemories] = await Promise.all([
+    options.vectorWeight > 0 ? generateEmbedding(query) : Promise.resolve(null),
+    options.lexicalWeight > 0 && keywords.length > 0
+      ? store.memories.list(userId, { ...filters, query: anyKeywordQuery(keywords), limit: poolSize })
+      : Promise.resolve([] as MemoryRecord[]),
+  ]);
+
+  const vectorMatches = queryEmbedding
+    ? await store.memories.matchByEmbedding(userId, queryEmbedding.embedding, {
+        ...filters,
+        threshold: options.threshold,
+        count: poolSize,
+      })
+    : [];
+
+  const hits = new Map<string, HybridSearchHit>();
+  const hitFor = (memory: MemoryRecord): HybridSearchHit => {
+    let hit = hits.get(memory.id);
+    if (!hit) {
+      hit = { ...withoutEmbedding(memory), score: { fused: 0, vector: null, lexical: null } };
+      hits.set(memory.id, hit);
+    }
+    return hit;
+  };
+
+  vectorMatches.forEach((match, index) => {
+    const { similarity, ...memory } = match;
+    const rank = index + 1;
+    const contribution = options.vectorWeight / (options.rrfK + rank);
+    const hit = hitFor(memory);
+    hit.score.vector = { rank, similarity, contribution };
+    hit.score.fused += contribution;
+  });
+
+  lexicalMemories
+    .map(memory => ({ memory, ...lexicalScore(memory.text, keywords) }))
+    .filter(candidate => candidate.score > 0)
+    // Stable sort keeps newest-first order between equal scores
+    .sort((a, b) => b.score - a.score)
+    .forEach((candidate, index) => {
+      const rank = index + 1;
+      const contribution = options.lexicalWeight / (options.rrfK + rank);
+      const hit = hitFor(candidate.memory);
+      hit.score.lexical = {
+        rank,
+        score: candidate.score,
+        matchedKeywords: candidate.matched,
+        contribution,
+      };
+      hit.score.fused += contribution;
+    });
+
+  const results = [...hits.values()]
+    .sort((a, b) => b.score.fused - a.score.fused)
+    .slice(0, options.limit);
+
+  hybridSearches.inc({ vector_available: String(!!queryEmbedding) });
+
+  logger.debug('Hybrid search completed', {
+    userId,
+    keywords: keywords.length,
+    vectorCandidates: vectorMatches.length,
+    lexicalCandidates: lexicalMemories.length,
+    results: results.length,
+  });
+
+  return {
+    results,
+    keywords,
+    vectorAvailable: !!queryEmbedding,
+    vectorCandidates: vectorMatches.length,
+    lexicalCandidates: lexicalMemories.length,
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Background Job Queue
+ *
+ * Durable queue for async work (relationship detection, backfills) with:
+ * - Table-backed storage so queued work survives restarts
+ * - Leases so jobs of a crashed worker are picked up again
+ * - Exponential backoff retries and dead-lettering
+ * - Draining of running jobs on shutdown
+ *
+ * Handlers are registered per job type; every process with the worker
+ * enabled polls for due jobs of the types it has handlers for.
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { Counter, Histogram } from 'prom-client';
+import { store, JobRecord, JobStore } from '../storage/index.js';
+import { InMemoryJobStore } from '../storage/memoryStore.js';
+import { jobQueueConfig, JobQueueConfig } from '../config/jobQueue.js';
+import { logger } from '../utils/logger.js';
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+const jobsEnqueued = new Counter({
+  name: 'recallbricks_jobs_enqueued_total',
+  help: 'Total number of background jobs enqueued',
+  labelNames: ['type'],
+});
+
+const jobsProcessed = new Counter({
+  name: 'recallbricks_jobs_processed_total',
+  help: 'Total number of background job attempts by outcome',
+  labelNames: ['type', 'status'],
+});
+
+const jobDuration = new Histogram({
+  name: 'recallbricks_job_duration_seconds',
+  help: 'Duration of background job attempts',
+  labelNames: ['type'],
+  buckets: [0.1, 0.5, 1, 5, 10, 30, 60, 300],
+});
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+export interface JobContext {
+  /** Aborted when the worker shuts down; long jobs should stop at a checkpoint */
+  signal: AbortSignal;
+  /** Checkpoint progress (visible via the jobs API) and extend the lease */
+  reportProgress(progress: Record<string, any>): Promise<void>;
+}
+
+/**
+ * Process a job. The returned object is stored as the job result; throwing
+ * schedules a retry (or dead-letters the job on its final attempt). A job
+ * that throws after its signal was aborted is released, not failed.
+ */
+export type JobHandler = (job: JobRecord, context: JobContext) => Promise<Record<string, any> | void>;
+
+export interface EnqueueOptions {
+  userId?: string | null;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+export class JobQueue {
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().substring(0, 8)}`;
+
+  private handlers = new Map<string, JobHandler>();
+  private running = new Map<string, { promise: Promise<void>; controller: AbortController }>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopped = true;
+
+  constructor(
+    private jobs: JobStore,
+    private config: JobQueueConfig
+  ) {}
+
+  register(type: string, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(
+    type: string,
+    payload: Record<string, any>,
+    options: EnqueueOptions = {}
+  ): Promise<JobRecord> {
+    const job = await this.jobs.enqueue({
+      type,
+      user_id: options.userId ?? null,
+      payload,
+      max_attempts: options.maxAttempts ?? this.config.maxAttempts,
+      run_at: options.delayMs ? new Date(Date.now() + options.delayMs).toISOString() : undefined,
+    });
+
+    jobsEnqueued.inc({ type });
+    logger.debug('Job enqueued', { jobId: job.id, type, userId: job.user_id });
+
+    // Pick it up right away if this process is working the queue
+    this.wake();
+    return job;
+  }
+
+  start(): void {
+    if (!this.config.workerEnabled || !this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    logger.info('Job worker started', {
+      workerId: this.workerId,
+      driver: this.config.driver,
+      types: [...this.handlers.keys()],
+      concurrency: this.config.concurrency,
+    });
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for running jobs. Jobs still running after the
+   * shutdown timeout are released back to the queue for another worker.
+   */
+  async stop(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running.size > 0) {
+      logger.info('Draining running jobs', { count: this.running.size });
+
+      for (const { controller } of this.running.values()) {
+        controller.abort(new Error('Worker shutting down'));
+      }
+
+      let timeout: NodeJS.Timeout | undefined;
+      await Promise.race([
+        Promise.allSettled([...this.running.values()].map(entry => entry.promise)),
+        new Promise(resolve => {
+          timeout = setTimeout(resolve, this.config.shutdownTimeout);
+        }),
+      ]);
+      clearTimeout(timeout);
+    }
+
+    for (const jobId of this.running.keys()) {
+      logger.warn('Releasing unfinished job on shutdown', { jobId });
+      await this.jobs.release(jobId, this.workerId).catch(error => {
+        logger.error('Failed to release job', { jobId, error: error.message });
+      });
+    }
+
+    logger.info('Job worker stopped', { workerId: this.workerId });
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, delay);
+  }
+
+  private wake(): void {
+    if (!this.stopped && !this.polling) {
+      this.schedule(0);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.stopped || this.polling) return;
+    this.polling = true;
+
+    try {
+      const capacity = this.config.concurrency - this.running.size;
+      if (capacity > 0 && this.handlers.size > 0) {
+        const jobs = await this.jobs.claim(
+          this.workerId,
+          [...this.handlers.keys()],
+          capacity,
+          this.config.leaseMs
+        );
+
+        for (const job of jobs) {
+          const controller = new AbortController();
+          const promise = this.execute(job, controller.signal).finally(() => {
+            this.running.delete(job.id);
+            this.wake();
+          });
+          this.running.set(job.id, { promise, controller });
+        }
+      }
+    } catch (error: any) {
+      logger.error('Failed to poll job queue', { error: error.message });
+    } finally {
+      this.polling = false;
+      this.schedule(this.config.pollInterval);
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(
+      this.config.retryBaseDelay * Math.pow(2, attempts - 1),
+      this.config.retryMaxDelay
+    );
+  }
+
+  private async execute(job: JobRecord, signal: AbortSignal): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+    const endTimer = jobDuration.startTimer({ type: job.type });
+    const context: JobContext = {
+      signal,
+      reportProgress: progress =>
+        this.jobs.heartbeat(job.id, this.workerId, progress, this.config.leaseMs),
+    };
+
+    try {
+      const result = await handler(job, context);
+      await this.jobs.complete(job.id, this.workerId, result || null);
+
+      jobsProcessed.inc({ type: job.type, status: 'succeeded' });
+      logger.debug('Job succeeded', { jobId: job.id, type: job.type, attempts: job.attempts });
+    } catch (error: any) {
+      if (signal.aborted) {
+        // Interrupted by shutdown: hand it back without using up an attempt
+        await this.jobs.release(job.id, this.workerId).catch(releaseError => {
+          logger.error('Failed to release job', { jobId: job.id, error: releaseError.message });
+        });
+        jobsProcessed.inc({ type: job.type, status: 'released' });
+        return;
+      }
+
+      const retryable = job.attempts < job.max_attempts;
+      const retryAt = retryable
+        ? new Date(Date.now() + this.retryDelay(job.attempts)).toISOString()
+        : null;
+
+      jobsProcessed.inc({ type: job.type, status: retryable ? 'retried' : 'dead' });
+      logger[retryable ? 'warn' : 'error'](retryable ? 'Job failed, will retry' : 'Job dead-lettered', {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+        maxAttempts: job.max_attempts,
+        retryAt,
+        error: error.message,
+      });
+
+      await this.jobs.fail(job.id, this.workerId, error.message || String(error), retryAt).catch(failError => {
+        // The lease will expire and the job will be claimed again
+        logger.error('Failed to record job failure', { jobId: job.id, error: failError.message });
+      });
+    } finally {
+      endTimer();
+    }
+  }
+}
+
+export const jobStore: JobStore = jobQueueConfig.driver === 'local'
+  ? new InMemoryJobStore()
+  : store.jobs;
+
+export const jobQueue = new JobQueue(jobStore, jobQueueConfig);
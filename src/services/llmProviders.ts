@@ -0,0 +1,246 @@
+/**
+ * LLM Providers for Relationship Detection
+ *
+ * Pluggable backends that answer with structured output - a single forced
+ * tool/function call whose arguments follow a JSON schema - with:
+ * - Anthropic Messages API (Claude)
+ * - OpenAI-compatible chat completions (OpenAI, vLLM, LM Studio, Ollama /v1, ...)
+ * - Offline deterministic provider that scores candidates by embedding
+ *   similarity instead of calling a model (no network, for tests/local dev)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import { RelationshipDetectionConfig } from '../config/relationshipDetection.js';
+import { cosineSimilarity } from '../storage/memoryStore.js';
+import { embeddingProvider, HashingEmbeddingProvider } from './embeddings.js';
+import type { CandidateMemory } from './relationshipDetector.js';
+
+// ============================================================================
+// Provider Interface
+// ============================================================================
+
+/**
+ * Tool the model must call; its input is the structured output
+ */
+export interface LLMTool {
+  name: string;
+  description: string;
+  // JSON Schema (object) for the tool input
+  inputSchema: Record<string, any>;
+}
+
+export interface LLMRequest {
+  prompt: string;
+  tool: LLMTool;
+  maxTokens: number;
+  temperature: number;
+  // The memory being analysed and the candidates listed in the prompt, for
+  // providers that work on the data rather than the prompt text
+  newMemoryText: string;
+  candidates: CandidateMemory[];
+}
+
+export interface LLMResponse {
+  // Tool input as returned by the model; validate before use
+  output: unknown;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * The model answered without a usable tool call (or with malformed arguments)
+ */
+export class LLMOutputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMOutputError';
+  }
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// ============================================================================
+// Anthropic
+// ============================================================================
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string, readonly model: string, timeout: number) {
+    this.client = new Anthropic({
+      apiKey,
+      timeout,
+      maxRetries: 0, // We handle retries ourselves
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const message = await this.client.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [{
+        role: 'user',
+        content: request.prompt,
+      }],
+      tools: [{
+        name: request.tool.name,
+        description: request.tool.description,
+        input_schema: request.tool.inputSchema as Anthropic.Tool.InputSchema,
+      }],
+      tool_choice: { type: 'tool', name: request.tool.name },
+    });
+
+    const toolUse = message.content.find(block => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use' || toolUse.name !== request.tool.name) {
+      throw new LLMOutputError(`Anthropic response did not call ${request.tool.name} (stop_reason: ${message.stop_reason})`);
+    }
+
+    return {
+      output: toolUse.input,
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    };
+  }
+}
+
+// ============================================================================
+// OpenAI-compatible
+// ============================================================================
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey: string, baseURL: string, readonly model: string, timeout: number) {
+    this.client = new OpenAI({ apiKey, baseURL, timeout, maxRetries: 0 });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: [{
+        role: 'user',
+        content: request.prompt,
+      }],
+      tools: [{
+        type: 'function',
+        function: {
+          name: request.tool.name,
+          description: request.tool.description,
+          parameters: request.tool.inputSchema,
+        },
+      }],
+      tool_choice: { type: 'function', function: { name: request.tool.name } },
+    });
+
+    const choice = completion.choices[0];
+    const call = choice?.message?.tool_calls?.find(c => c.function.name === request.tool.name);
+    if (!call) {
+      throw new LLMOutputError(
+        `OpenAI-compatible response did not call ${request.tool.name} (finish_reason: ${choice?.finish_reason})`
+      );
+    }
+
+    let output: unknown;
+    try {
+      output = JSON.parse(call.function.arguments);
+    } catch {
+      throw new LLMOutputError(`Malformed ${request.tool.name} arguments: ${call.function.arguments.substring(0, 200)}`);
+    }
+
+    return {
+      output,
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens,
+    };
+  }
+}
+
+// ============================================================================
+// Local (offline, deterministic)
+// ============================================================================
+
+/**
+ * Rule-based stand-in for a model: every candidate whose embedding
+ * similarity reaches minStrength becomes a relationship with that strength,
+ * "similar_to" above similarThreshold and "related_to" below. Candidates
+ * without a precomputed similarity are embedded with the configured
+ * embedding provider, or the hashing provider when none is configured.
+ */
+export class LocalRelationshipProvider implements LLMProvider {
+  readonly name = 'local';
+  private fallbackEmbeddings = new HashingEmbeddingProvider();
+
+  constructor(
+    readonly model: string,
+    private minStrength: number,
+    private maxRelationships: number,
+    private similarThreshold: number = 0.9
+  ) {}
+
+  private async similarities(request: LLMRequest): Promise<number[]> {
+    if (request.candidates.every(c => c.similarity !== undefined)) {
+      return request.candidates.map(c => c.similarity!);
+    }
+
+    const embedder = embeddingProvider ?? this.fallbackEmbeddings;
+    const [target, ...vectors] = await embedder.embed([
+      request.newMemoryText,
+      ...request.candidates.map(c => c.text),
+    ]);
+
+    return request.candidates.map((c, i) => c.similarity ?? cosineSimilarity(target, vectors[i]));
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const similarities = await this.similarities(request);
+
+    const relationships = request.candidates
+      .map((candidate, index) => ({
+        memory_index: index,
+        memory_id: candidate.id,
+        relationship_type: similarities[index] >= this.similarThreshold ? 'similar_to' : 'related_to',
+        strength: Math.round(Math.min(similarities[index], 1) * 100) / 100,
+        explanation: `Embedding similarity ${similarities[index].toFixed(2)}`,
+      }))
+      .filter(rel => rel.strength >= this.minStrength)
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, this.maxRelationships);
+
+    return { output: { relationships } };
+  }
+}
+
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+export function createLLMProvider(config: RelationshipDetectionConfig): LLMProvider | null {
+  switch (config.llmProvider) {
+    case 'anthropic':
+      return config.claudeApiKey
+        ? new AnthropicProvider(config.claudeApiKey, config.claudeModel, config.requestTimeout)
+        : null;
+    case 'openai':
+      return config.openaiApiKey
+        ? new OpenAICompatibleProvider(
+            config.openaiApiKey,
+            config.openaiBaseUrl,
+            config.openaiModel,
+            config.requestTimeout
+          )
+        : null;
+    case 'local':
+      return new LocalRelationshipProvider('embedding-rules-v1', config.minStrength, config.maxRelationships);
+  }
+}
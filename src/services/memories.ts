@@ -0,0 +1,252 @@
+/**
+ * Memory Service
+ *
+ * Creating, searching and updating memories, shared by the HTTP routes and
+ * the MCP server: text extraction, embeddings, deduplication and queueing of
+ * relationship detection happen here so every client gets the same results.
+ */
+
+import OpenAI from 'openai';
+import {
+  store,
+  MatchCursor,
+  MemoryFilters,
+  MemoryMatch,
+  MemoryRecord,
+  MemoryUpdate,
+  NewMemory,
+} from '../storage/index.js';
+import { CreateMemoryRequest, Memory } from '../types/recallbricks.js';
+import {
+  embeddingProvider,
+  generateEmbedding,
+  embeddingColumns,
+  EmbeddingResult,
+} from './embeddings.js';
+import {
+  findExactDuplicate,
+  findSimilarDuplicate,
+  mergeIntoExisting,
+  DuplicateMatch,
+} from './deduplication.js';
+import { updatedMetadata } from './memoryVersions.js';
+import { queueRelationshipDetection } from './relationshipDetector.js';
+import { relationshipConfig } from '../config/relationshipDetection.js';
+import { DedupeMode } from '../config/dedupe.js';
+import { encodeCursor } from '../utils/pagination.js';
+import { textHash } from '../utils/text.js';
+
+// Default minimum cosine similarity for vector search
+export const DEFAULT_MATCH_THRESHOLD = 0.5;
+
+// Initialize OpenAI client (optional)
+const openai = process.env.OPENAI_API_KEY ? new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY
+}) : null;
+
+// Whether new memories are run through key information extraction
+export const extractionEnabled = !!openai;
+
+// Function to extract key information using OpenAI GPT-4o-mini (optional)
+export async function extractKeyInfo(text: string): Promise<string> {
+  if (!openai) {
+    return text; // Skip extraction if no OpenAI key
+  }
+  try {
+    const completion = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: 'Extract only key information: decisions, code, facts. Remove explanations and filler.'
+        },
+        {
+          role: 'user',
+          content: text
+        }
+      ],
+      temperature: 0.3,
+      max_tokens: 500
+    });
+
+    const extracted = completion.choices[0]?.message?.content?.trim();
+    return extracted || text;
+  } catch (error) {
+    console.error('Error extracting key information:', error);
+    return text;
+  }
+}
+
+/**
+ * Build the row for a CreateMemoryRequest once text extraction and
+ * embedding have run
+ */
+export function newMemoryRow(
+  userId: string,
+  request: CreateMemoryRequest,
+  extractedText: string,
+  embedding: EmbeddingResult | null,
+  extracted: boolean
+): NewMemory {
+  return {
+    user_id: userId,
+    text: extractedText,
+    source: request.source || 'api',
+    project_id: request.project_id || 'default',
+    tags: request.tags || [],
+    metadata: {
+      ...request.metadata,
+      original_text: request.text,
+      extracted
+    },
+    text_hash: textHash(request.text),
+    ...embeddingColumns(embedding),
+  };
+}
+
+/**
+ * Why a query embedding could not be produced
+ */
+export function embeddingUnavailableMessage(): string {
+  return embeddingProvider
+    ? 'Failed to generate query embedding. Please try again later.'
+    : 'Semantic search requires an embedding provider. Set EMBEDDING_PROVIDER.';
+}
+
+export interface CreateMemoryResult {
+  memory: MemoryRecord;
+  // Set when an existing memory was returned instead of inserting
+  duplicate: DuplicateMatch | null;
+}
+
+/**
+ * Create a memory: extract key information, embed it and queue relationship
+ * detection. Unless `dedupe` is off, a memory in the same project with the
+ * same text (or a similar enough embedding) is returned instead - with
+ * merge, after adding the new tags and metadata to it.
+ */
+export async function createMemory(
+  userId: string,
+  request: CreateMemoryRequest,
+  dedupe: DedupeMode
+): Promise<CreateMemoryResult> {
+  const { text } = request;
+  const projectId = request.project_id || 'default';
+  let duplicate: DuplicateMatch | null = null;
+
+  if (dedupe !== 'off') {
+    duplicate = await findExactDuplicate(userId, projectId, text);
+  }
+
+  // Extract key information (optional)
+  const extractedText = duplicate ? text : await extractKeyInfo(text);
+
+  // Generate embedding (optional)
+  const embedding = duplicate ? null : await generateEmbedding(extractedText);
+
+  if (dedupe !== 'off' && embedding) {
+    duplicate = await findSimilarDuplicate(userId, projectId, embedding.embedding);
+  }
+
+  if (duplicate) {
+    const existing = dedupe === 'merge'
+      ? await mergeIntoExisting(userId, duplicate.memory, request)
+      : duplicate.memory;
+
+    return { memory: existing, duplicate };
+  }
+
+  const memory = await store.memories.insert(newMemoryRow(userId, request, extractedText, embedding, !!openai));
+
+  // Queue relationship detection on the background worker
+  if (memory?.id && relationshipConfig.asyncExecution) {
+    await queueRelationshipDetection(memory.id, userId).catch(err => {
+      console.error('Failed to queue relationship detection:', err);
+    });
+  }
+
+  return { memory, duplicate: null };
+}
+
+export interface VectorSearchOptions extends MemoryFilters {
+  limit: number;
+  threshold?: number;
+  after?: MatchCursor;
+}
+
+export interface VectorSearchResult {
+  memories: MemoryMatch[];
+  threshold: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Vector similarity search, most similar first. Null when the query
+ * embedding cannot be produced.
+ */
+export async function vectorSearch(
+  userId: string,
+  query: string,
+  { limit, threshold = DEFAULT_MATCH_THRESHOLD, after, ...filters }: VectorSearchOptions
+): Promise<VectorSearchResult | null> {
+  const queryEmbedding = await generateEmbedding(query);
+  if (!queryEmbedding) {
+    return null;
+  }
+
+  // Fetch one extra row to detect the next page
+  const matches = await store.memories.matchByEmbedding(userId, queryEmbedding.embedding, {
+    ...filters,
+    threshold,
+    count: limit + 1,
+    after,
+  });
+
+  const page = matches.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = matches.length > limit && last
+    ? encodeCursor({ similarity: last.similarity, id: last.id })
+    : null;
+
+  return { memories: page, threshold, nextCursor };
+}
+
+/**
+ * The text of the memories most relevant to `query`, for handing to a model.
+ * Null when the query embedding cannot be produced.
+ */
+export async function recallContext(userId: string, query: string, limit: number): Promise<string[] | null> {
+  const result = await vectorSearch(userId, query, { limit });
+  return result && result.memories.map(memory => memory.text);
+}
+
+export interface MemoryChanges {
+  text?: string;
+  tags?: string[];
+  metadata?: Record<string, any>;
+  project_id?: string;
+}
+
+/**
+ * Update `existing`, regenerating the embedding when the text changes.
+ * `metadata` replaces the client's metadata; system keys are kept. Null when
+ * the memory no longer exists.
+ */
+export async function updateMemory(
+  userId: string,
+  existing: Memory,
+  { text, tags, metadata, project_id }: MemoryChanges
+): Promise<MemoryRecord | null> {
+  const updates: MemoryUpdate = {};
+  if (text) {
+    updates.text = text;
+    updates.text_hash = textHash(text);
+    // Regenerate embedding if text changed
+    Object.assign(updates, embeddingColumns(await generateEmbedding(text)));
+  }
+  if (tags) updates.tags = tags;
+  if (metadata || text) updates.metadata = updatedMetadata(existing, metadata, text || undefined);
+  if (project_id) updates.project_id = project_id;
+
+  return store.memories.update(userId, existing.id, updates);
+}
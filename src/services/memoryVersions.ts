@@ -0,0 +1,202 @@
+/**
+ * Memory Versions
+ *
+ * The storage backend keeps the previous state of a memory whenever an
+ * update changes its text, source, project, tags or metadata. This lists a
+ * memory's versions with the changes each one made, and reverts a memory to
+ * an earlier version.
+ */
+
+import { store, MemoryRecord, MemoryUpdate, MemoryVersion } from '../storage/index.js';
+import { Memory } from '../types/recallbricks.js';
+import { embeddingColumns, generateEmbedding } from './embeddings.js';
+import { textHash } from '../utils/text.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Metadata written by the service rather than the client: kept when a
+ * client replaces a memory's metadata
+ */
+export const SYSTEM_METADATA_KEYS = ['original_text', 'extracted', 'merged_from', 'superseded'] as const;
+
+type VersionState = Pick<MemoryVersion, 'text' | 'source' | 'project_id' | 'tags' | 'metadata'>;
+
+export interface VersionChanges {
+  text?: { from: string; to: string };
+  source?: { from: string; to: string };
+  project_id?: { from: string; to: string };
+  tags?: { added: string[]; removed: string[] };
+  metadata?: {
+    added: Record<string, any>;
+    removed: string[];
+    changed: Record<string, { from: any; to: any }>;
+  };
+}
+
+export interface VersionEntry extends VersionState {
+  version: number;
+  current: boolean;
+  valid_from: string;
+  // null for the current version
+  valid_until: string | null;
+  // Relative to the previous version; null for the first
+  changes: VersionChanges | null;
+}
+
+export interface VersionHistory {
+  memory_id: string;
+  current_version: number;
+  versions: VersionEntry[];
+  // Older versions exist beyond `limit`
+  has_more: boolean;
+}
+
+function withoutEmbedding({ embedding, ...memory }: MemoryRecord): Memory {
+  return memory;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Metadata for an update of `existing`: the client's metadata (or the
+ * existing metadata) with the system keys carried over. A new text becomes
+ * the original text, since updated text is not run through extraction.
+ */
+export function updatedMetadata(
+  existing: Memory,
+  metadata: Record<string, any> | undefined,
+  text?: string
+): Record<string, any> {
+  const updated: Record<string, any> = { ...(metadata ?? existing.metadata) };
+
+  for (const key of SYSTEM_METADATA_KEYS) {
+    if (existing.metadata?.[key] !== undefined) {
+      updated[key] = existing.metadata[key];
+    } else {
+      delete updated[key];
+    }
+  }
+
+  if (text !== undefined) {
+    updated.original_text = text;
+    updated.extracted = false;
+  }
+
+  return updated;
+}
+
+export function diffVersions(from: VersionState, to: VersionState): VersionChanges {
+  const changes: VersionChanges = {};
+
+  for (const field of ['text', 'source', 'project_id'] as const) {
+    if (from[field] !== to[field]) {
+      changes[field] = { from: from[field], to: to[field] };
+    }
+  }
+
+  const fromTags = new Set(from.tags ?? []);
+  const toTags = new Set(to.tags ?? []);
+  const addedTags = [...toTags].filter(tag => !fromTags.has(tag));
+  const removedTags = [...fromTags].filter(tag => !toTags.has(tag));
+  if (addedTags.length || removedTags.length) {
+    changes.tags = { added: addedTags, removed: removedTags };
+  }
+
+  const fromMetadata = from.metadata ?? {};
+  const toMetadata = to.metadata ?? {};
+  const metadata: NonNullable<VersionChanges['metadata']> = { added: {}, removed: [], changed: {} };
+  for (const [key, value] of Object.entries(toMetadata)) {
+    if (!(key in fromMetadata)) {
+      metadata.added[key] = value;
+    } else if (!sameValue(fromMetadata[key], value)) {
+      metadata.changed[key] = { from: fromMetadata[key], to: value };
+    }
+  }
+  metadata.removed = Object.keys(fromMetadata).filter(key => !(key in toMetadata));
+  if (Object.keys(metadata.added).length || metadata.removed.length || Object.keys(metadata.changed).length) {
+    changes.metadata = metadata;
+  }
+
+  return changes;
+}
+
+function stateOf(memory: Memory | MemoryVersion): VersionState {
+  return {
+    text: memory.text,
+    source: memory.source,
+    project_id: memory.project_id,
+    tags: memory.tags ?? [],
+    metadata: memory.metadata ?? {},
+  };
+}
+
+/**
+ * The memory's versions, newest (the current state) first, up to `limit`
+ */
+export async function listVersions(userId: string, memory: Memory, limit: number): Promise<VersionHistory> {
+  // The oldest listed version needs its predecessor for its changes
+  const stored = await store.versions.list(userId, memory.id, { limit });
+  const currentVersion = (stored[0]?.version ?? 0) + 1;
+
+  const states: Array<{ version: number; state: VersionState; valid_from: string; valid_until: string | null }> = [
+    { version: currentVersion, state: stateOf(memory), valid_from: memory.updated_at, valid_until: null },
+    ...stored.map(v => ({ version: v.version, state: stateOf(v), valid_from: v.valid_from, valid_until: v.valid_until })),
+  ];
+
+  const versions = states.slice(0, limit).map((entry, i): VersionEntry => {
+    const previous = states[i + 1];
+    return {
+      version: entry.version,
+      current: entry.version === currentVersion,
+      ...entry.state,
+      valid_from: entry.valid_from,
+      valid_until: entry.valid_until,
+      changes: previous ? diffVersions(previous.state, entry.state) : null,
+    };
+  });
+
+  return {
+    memory_id: memory.id,
+    current_version: currentVersion,
+    versions,
+    has_more: versions[versions.length - 1].version > 1,
+  };
+}
+
+/**
+ * Restore the memory to `version`; the state being replaced is kept as a new
+ * version. The embedding is regenerated when the text changes.
+ */
+export async function revertMemory(
+  userId: string,
+  memory: Memory,
+  version: MemoryVersion
+): Promise<{ memory: Memory; changes: VersionChanges }> {
+  const changes = diffVersions(stateOf(memory), stateOf(version));
+
+  const updates: MemoryUpdate = {
+    source: version.source,
+    project_id: version.project_id,
+    tags: version.tags,
+    metadata: version.metadata,
+  };
+
+  if (changes.text) {
+    updates.text = version.text;
+    updates.text_hash = textHash(version.metadata?.original_text ?? version.text);
+    Object.assign(updates, embeddingColumns(await generateEmbedding(version.text)));
+  }
+
+  const updated = await store.memories.update(userId, memory.id, updates);
+
+  logger.info('Memory reverted', {
+    memoryId: memory.id,
+    userId,
+    version: version.version,
+    textChanged: !!changes.text,
+  });
+
+  return { memory: updated ? withoutEmbedding(updated) : memory, changes };
+}
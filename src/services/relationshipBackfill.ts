@@ -0,0 +1,133 @@
+/**
+ * Relationship Detection Backfill
+ *
+ * Account-wide background job that re-runs relationship detection over
+ * existing memories, oldest first, in windows of
+ * relationshipConfig.backfillBatchSize. Progress is checkpointed after every
+ * window so an interrupted or retried backfill resumes where it stopped.
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import { store, JobRecord, ListCursor } from '../storage/index.js';
+import { relationshipConfig } from '../config/relationshipDetection.js';
+import { jobQueue, jobStore, JobContext } from './jobQueue.js';
+import {
+  detectRelationships,
+  isDetectionCircuitOpen,
+  selectCandidates,
+} from './relationshipDetector.js';
+import { logger } from '../utils/logger.js';
+
+export const RELATIONSHIP_BACKFILL_JOB = 'relationship_backfill';
+
+export interface BackfillOptions {
+  projectId?: string;
+  // Skip memories that already have relationships
+  onlyUnlinked?: boolean;
+}
+
+export interface BackfillProgress {
+  cursor: ListCursor | null;
+  total: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+  relationshipsFound: number;
+  relationshipsStored: number;
+}
+
+/**
+ * Queue a backfill for the user, or return the one already queued/running
+ */
+export async function startBackfill(
+  userId: string,
+  options: BackfillOptions
+): Promise<{ job: JobRecord; existing: boolean }> {
+  for (const status of ['running', 'queued'] as const) {
+    const [active] = await jobStore.list(userId, { type: RELATIONSHIP_BACKFILL_JOB, status, limit: 1 });
+    if (active) {
+      return { job: active, existing: true };
+    }
+  }
+
+  const job = await jobQueue.enqueue(RELATIONSHIP_BACKFILL_JOB, { ...options }, { userId });
+  logger.info('Relationship backfill queued', { jobId: job.id, userId, ...options });
+
+  return { job, existing: false };
+}
+
+async function runBackfill(job: JobRecord, { signal, reportProgress }: JobContext): Promise<BackfillProgress> {
+  const userId = job.user_id!;
+  const options = job.payload as BackfillOptions;
+  const filters = { projectId: options.projectId };
+
+  let progress = job.progress as BackfillProgress | null;
+  if (!progress) {
+    const { total } = await store.memories.listPage(userId, { ...filters, limit: 1, count: 'exact' });
+    progress = {
+      cursor: null,
+      total: total ?? 0,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      relationshipsFound: 0,
+      relationshipsStored: 0,
+    };
+    await reportProgress({ ...progress });
+  }
+
+  logger.info('Relationship backfill started', { jobId: job.id, userId, progress });
+
+  let hasMore = true;
+  while (hasMore) {
+    signal.throwIfAborted();
+
+    const page = await store.memories.listPage(userId, {
+      ...filters,
+      sort: 'created',
+      order: 'asc',
+      limit: relationshipConfig.backfillBatchSize,
+      after: progress.cursor ?? undefined,
+    });
+
+    for (const memory of page.memories) {
+      signal.throwIfAborted();
+
+      if (options.onlyUnlinked && (memory.relationship_strength ?? 0) > 0) {
+        progress.skipped++;
+      } else {
+        // Wait out an open circuit instead of failing every remaining memory
+        if (isDetectionCircuitOpen()) {
+          logger.warn('LLM circuit breaker open, pausing backfill', {
+            jobId: job.id,
+            pauseMs: relationshipConfig.circuitBreakerTimeout,
+          });
+          await sleep(relationshipConfig.circuitBreakerTimeout, undefined, { signal });
+        }
+
+        const candidates = await selectCandidates(userId, memory);
+        const result = await detectRelationships(memory.id, memory.text, userId, { candidates });
+
+        if (result.success) {
+          progress.relationshipsFound += result.relationshipsFound;
+          progress.relationshipsStored += result.relationshipsStored;
+        } else {
+          progress.failed++;
+        }
+
+        await sleep(relationshipConfig.backfillDelay, undefined, { signal });
+      }
+
+      progress.processed++;
+      progress.cursor = { value: memory.created_at, id: memory.id };
+    }
+
+    hasMore = page.hasMore;
+    await reportProgress({ ...progress });
+  }
+
+  logger.info('Relationship backfill completed', { jobId: job.id, userId, progress });
+  return progress;
+}
+
+jobQueue.register(RELATIONSHIP_BACKFILL_JOB, async (job, context) => ({ ...await runBackfill(job, context) }));
@@ -1,8 +1,9 @@
 /**
  * Memory Relationship Detection Service
  *
- * Enterprise-grade service using Claude API to automatically detect
- * semantic relationships between memories with:
+ * Enterprise-grade service using an LLM (Claude by default, see
+ * llmProviders.ts) to automatically detect semantic relationships between
+ * memories with:
  * - Exponential backoff retry logic
  * - Circuit breaker pattern
  * - Comprehensive metrics and logging
@@ -11,12 +12,21 @@
  * - Idempotency guarantees
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { supabase } from '../config/supabase.js';
+import {
+  store,
+  relationshipPairKey,
+  parseEmbedding,
+  DetectionStatusUpdate,
+  JobRecord,
+  MemoryRecord,
+} from '../storage/index.js';
 import { relationshipConfig } from '../config/relationshipDetection.js';
 import { CircuitBreaker } from '../utils/circuitBreaker.js';
 import { logger } from '../utils/logger.js';
 import { DBMetricsTracker } from '../utils/metrics.js';
+import { jobQueue } from './jobQueue.js';
+import { createLLMProvider, LLMOutputError, LLMTool } from './llmProviders.js';
+import { applyFeedback } from './relationshipFeedback.js';
 import { Counter, Histogram } from 'prom-client';
 import {
   DetectedRelationship,
@@ -46,16 +56,28 @@ const relationshipsDetected = new Counter({
   labelNames: ['type'],
 });
 
-const claudeApiCalls = new Counter({
-  name: 'recallbricks_claude_api_calls_total',
-  help: 'Total number of Claude API calls',
-  labelNames: ['model', 'status'],
+const candidateSelections = new Counter({
+  name: 'recallbricks_relationship_candidate_selections_total',
+  help: 'Candidate selections for relationship detection by strategy used',
+  labelNames: ['strategy'],
+});
+
+const llmCalls = new Counter({
+  name: 'recallbricks_llm_calls_total',
+  help: 'Total number of relationship detection LLM calls',
+  labelNames: ['provider', 'model', 'status'],
 });
 
-const claudeApiLatency = new Histogram({
-  name: 'recallbricks_claude_api_latency_seconds',
-  help: 'Claude API response latency',
-  labelNames: ['model'],
+const parseFailures = new Counter({
+  name: 'recallbricks_relationship_parse_failures_total',
+  help: 'LLM responses and relationships rejected during output validation',
+  labelNames: ['provider', 'reason'],
+});
+
+const llmLatency = new Histogram({
+  name: 'recallbricks_llm_latency_seconds',
+  help: 'Relationship detection LLM response latency',
+  labelNames: ['provider', 'model'],
   buckets: [0.5, 1, 2, 5, 10, 20, 30],
 });
 
@@ -63,31 +85,33 @@ const claudeApiLatency = new Histogram({
 // Circuit Breaker
 // ============================================================================
 
-const claudeCircuitBreaker = new CircuitBreaker(
+const llmCircuitBreaker = new CircuitBreaker(
   relationshipConfig.circuitBreakerThreshold,
   relationshipConfig.circuitBreakerTimeout
 );
 
 // ============================================================================
-// Anthropic Client
+// LLM Provider
 // ============================================================================
 
-let anthropicClient: Anthropic | null = null;
+const llmProvider = createLLMProvider(relationshipConfig);
+const providerLabel = llmProvider?.name ?? relationshipConfig.llmProvider;
 
-function getAnthropicClient(): Anthropic {
-  if (!anthropicClient && relationshipConfig.claudeApiKey) {
-    anthropicClient = new Anthropic({
-      apiKey: relationshipConfig.claudeApiKey,
-      timeout: relationshipConfig.requestTimeout,
-      maxRetries: 0, // We handle retries ourselves
-    });
-  }
+// ============================================================================
+// Types
+// ============================================================================
 
-  if (!anthropicClient) {
-    throw new Error('Anthropic client not initialized - API key missing');
-  }
+export interface CandidateMemory {
+  id: string;
+  text: string;
+  created_at: string;
+  // Cosine similarity to the new memory, when selected by embedding
+  similarity?: number;
+}
 
-  return anthropicClient;
+export interface DetectionOptions {
+  // Memories to compare against; defaults to the most recent memories
+  candidates?: CandidateMemory[];
 }
 
 // ============================================================================
@@ -108,47 +132,58 @@ function validateMemoryText(text: string): void {
   }
 }
 
-function validateRelationship(rel: any): DetectedRelationship | null {
-  try {
-    // Validate required fields
-    if (!rel.memory_id || typeof rel.memory_id !== 'string') {
-      logger.warn('Invalid relationship: missing or invalid memory_id', { rel });
-      return null;
-    }
+// Types the model may assign, always from the new memory towards an older
+// one; their inverses only appear when edges are read from the other end
+const DETECTED_RELATIONSHIP_TYPES: RelationshipType[] = ['related_to', 'caused_by', 'similar_to', 'follows', 'contradicts'];
 
-    if (!rel.relationship_type || !isValidRelationshipType(rel.relationship_type)) {
-      logger.warn('Invalid relationship: invalid relationship_type', { rel });
-      return null;
-    }
+function rejectRelationship(reason: string, message: string, rel: any): null {
+  parseFailures.inc({ provider: providerLabel, reason });
+  logger.warn(`Invalid relationship: ${message}`, { rel });
+  return null;
+}
 
-    if (typeof rel.strength !== 'number' || rel.strength < 0 || rel.strength > 1) {
-      logger.warn('Invalid relationship: strength must be between 0 and 1', { rel });
-      return null;
-    }
+/**
+ * Validate one relationship from the model. The referenced memory must be
+ * one of the candidates that was sent, and memory_index and memory_id must
+ * point at the same candidate.
+ */
+function validateRelationship(rel: any, candidates: CandidateMemory[]): DetectedRelationship | null {
+  if (!rel || typeof rel !== 'object') {
+    return rejectRelationship('invalid_relationship', 'not an object', rel);
+  }
 
-    if (rel.strength < relationshipConfig.minStrength) {
-      logger.debug('Relationship below minimum strength threshold', {
-        strength: rel.strength,
-        threshold: relationshipConfig.minStrength,
-      });
-      return null;
-    }
+  if (!rel.memory_id || typeof rel.memory_id !== 'string') {
+    return rejectRelationship('invalid_relationship', 'missing or invalid memory_id', rel);
+  }
 
-    return {
-      memory_id: '', // Will be set by caller
-      related_memory_id: rel.memory_id,
-      relationship_type: rel.relationship_type,
-      strength: Math.min(Math.max(rel.strength, 0), 1), // Clamp to [0, 1]
-      explanation: sanitizeExplanation(rel.explanation || ''),
-    };
-  } catch (error) {
-    logger.error('Error validating relationship', { error, rel });
-    return null;
+  const candidateIndex = candidates.findIndex(c => c.id === rel.memory_id);
+  if (candidateIndex === -1) {
+    return rejectRelationship('unknown_candidate', 'memory_id is not one of the candidates', rel);
+  }
+
+  if (rel.memory_index !== candidateIndex) {
+    return rejectRelationship('index_mismatch', 'memory_index does not match memory_id', rel);
+  }
+
+  if (!rel.relationship_type || !isValidRelationshipType(rel.relationship_type)) {
+    return rejectRelationship('invalid_relationship', 'invalid relationship_type', rel);
+  }
+
+  if (typeof rel.strength !== 'number' || rel.strength < 0 || rel.strength > 1) {
+    return rejectRelationship('invalid_relationship', 'strength must be between 0 and 1', rel);
   }
+
+  return {
+    memory_id: '', // Will be set by caller
+    related_memory_id: rel.memory_id,
+    relationship_type: rel.relationship_type,
+    strength: rel.strength,
+    explanation: sanitizeExplanation(rel.explanation || ''),
+  };
 }
 
 function isValidRelationshipType(type: string): type is RelationshipType {
-  return ['related_to', 'caused_by', 'similar_to', 'follows', 'contradicts'].includes(type);
+  return (DETECTED_RELATIONSHIP_TYPES as string[]).includes(type);
 }
 
 function sanitizeExplanation(text: string): string {
@@ -168,12 +203,46 @@ function sanitizeExplanation(text: string): string {
 // Prompt Engineering
 // ============================================================================
 
+/**
+ * Structured output: the model must answer by calling this tool
+ */
+const RECORD_RELATIONSHIPS_TOOL: LLMTool = {
+  name: 'record_relationships',
+  description: 'Record the relationships between the new memory and the existing memories.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      relationships: {
+        type: 'array',
+        maxItems: relationshipConfig.maxRelationships,
+        items: {
+          type: 'object',
+          properties: {
+            memory_index: { type: 'integer', minimum: 0, description: 'Index of the existing memory, as listed' },
+            memory_id: { type: 'string', description: 'ID of the existing memory, as listed' },
+            relationship_type: { type: 'string', enum: DETECTED_RELATIONSHIP_TYPES },
+            strength: { type: 'number', minimum: 0, maximum: 1 },
+            explanation: { type: 'string', maxLength: relationshipConfig.explanationMaxLength },
+          },
+          required: ['memory_index', 'memory_id', 'relationship_type', 'strength', 'explanation'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['relationships'],
+    additionalProperties: false,
+  },
+};
+
 function buildRelationshipPrompt(
   newMemory: string,
-  recentMemories: Array<{ id: string; text: string; created_at: string }>
+  recentMemories: CandidateMemory[]
 ): string {
   const memoriesContext = recentMemories
-    .map((m, idx) => `[${idx}] ID: ${m.id}\nText: ${m.text}\nCreated: ${m.created_at}`)
+    .map((m, idx) => {
+      const similarity = m.similarity !== undefined ? `\nSimilarity: ${m.similarity.toFixed(2)}` : '';
+      return `[${idx}] ID: ${m.id}\nText: ${m.text}\nCreated: ${m.created_at}${similarity}`;
+    })
     .join('\n\n');
 
   return `You are an expert at analyzing semantic relationships between user memories in a personal knowledge management system.
@@ -181,7 +250,7 @@ function buildRelationshipPrompt(
 NEW MEMORY:
 ${newMemory}
 
-EXISTING MEMORIES (${recentMemories.length} most recent):
+EXISTING MEMORIES (${recentMemories.length} candidates):
 ${memoriesContext}
 
 TASK:
@@ -202,69 +271,61 @@ RULES:
 5. Focus on meaningful semantic connections, not superficial word matches
 6. Avoid weak relationships - quality over quantity
 
-OUTPUT FORMAT (JSON only, no other text):
-[
-  {
-    "memory_index": 0,
-    "memory_id": "uuid-from-above",
-    "relationship_type": "related_to",
-    "strength": 0.85,
-    "explanation": "Brief, clear explanation of the relationship"
-  }
-]
-
-If no meaningful relationships found, return: []
-
-Return ONLY the JSON array. No markdown, no code blocks, no explanations.`;
+OUTPUT:
+Call the ${RECORD_RELATIONSHIPS_TOOL.name} tool exactly once. Refer to each existing memory by both its [index] and ID exactly as listed above.
+If no meaningful relationships are found, call it with an empty list.`;
 }
 
 // ============================================================================
-// Claude API Interaction
+// LLM Interaction
 // ============================================================================
 
-async function callClaudeAPI(prompt: string): Promise<string> {
+async function callLLM(
+  prompt: string,
+  newMemoryText: string,
+  candidates: CandidateMemory[]
+): Promise<unknown> {
+  if (!llmProvider) {
+    throw new Error(`LLM provider "${relationshipConfig.llmProvider}" not configured - API key missing`);
+  }
+
+  const labels = { provider: llmProvider.name, model: llmProvider.model };
   const startTime = Date.now();
-  const client = getAnthropicClient();
 
   try {
-    const message = await claudeCircuitBreaker.execute(
-      async () => {
-        return await client.messages.create({
-          model: relationshipConfig.claudeModel,
-          max_tokens: relationshipConfig.maxTokens,
-          temperature: relationshipConfig.temperature,
-          messages: [{
-            role: 'user',
-            content: prompt,
-          }],
-        });
-      },
-      'claude-api-relationship-detection'
+    const response = await llmCircuitBreaker.execute(
+      () => llmProvider.complete({
+        prompt,
+        tool: RECORD_RELATIONSHIPS_TOOL,
+        maxTokens: relationshipConfig.maxTokens,
+        temperature: relationshipConfig.temperature,
+        newMemoryText,
+        candidates,
+      }),
+      `${llmProvider.name}-relationship-detection`
     );
 
     const latency = (Date.now() - startTime) / 1000;
-    claudeApiLatency.observe({ model: relationshipConfig.claudeModel }, latency);
-    claudeApiCalls.inc({ model: relationshipConfig.claudeModel, status: 'success' });
+    llmLatency.observe(labels, latency);
+    llmCalls.inc({ ...labels, status: 'success' });
 
-    logger.debug('Claude API call successful', {
-      model: relationshipConfig.claudeModel,
+    logger.debug('LLM call successful', {
+      ...labels,
       latency,
-      inputTokens: message.usage.input_tokens,
-      outputTokens: message.usage.output_tokens,
+      inputTokens: response.inputTokens,
+      outputTokens: response.outputTokens,
     });
 
-    const content = message.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected content type from Claude API');
-    }
-
-    return content.text;
+    return response.output;
   } catch (error: any) {
-    claudeApiCalls.inc({ model: relationshipConfig.claudeModel, status: 'error' });
+    llmCalls.inc({ ...labels, status: 'error' });
+    if (error instanceof LLMOutputError) {
+      parseFailures.inc({ provider: llmProvider.name, reason: 'no_tool_call' });
+    }
 
-    logger.error('Claude API call failed', {
+    logger.error('LLM call failed', {
+      ...labels,
       error: error.message,
-      model: relationshipConfig.claudeModel,
       latency: (Date.now() - startTime) / 1000,
     });
 
@@ -276,56 +337,58 @@ async function callClaudeAPI(prompt: string): Promise<string> {
 // Response Parsing
 // ============================================================================
 
-function parseClaudeResponse(
-  response: string,
+/**
+ * Validate the record_relationships tool input. A malformed payload throws
+ * (so the call is retried); individual bad relationships are dropped and counted.
+ */
+function parseDetectionOutput(
+  output: unknown,
+  candidates: CandidateMemory[],
   newMemoryId: string
-): DetectedRelationship[] {
-  try {
-    // Extract JSON array from response (handle markdown code blocks)
-    let jsonText = response.trim();
+): { relationships: DetectedRelationship[]; rejected: number } {
+  const items = (output as { relationships?: unknown } | null)?.relationships;
+
+  if (!Array.isArray(items)) {
+    parseFailures.inc({ provider: providerLabel, reason: 'invalid_output' });
+    throw new LLMOutputError(`${RECORD_RELATIONSHIPS_TOOL.name} input has no relationships array`);
+  }
 
-    // Remove markdown code blocks if present
-    const codeBlockMatch = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (codeBlockMatch) {
-      jsonText = codeBlockMatch[1].trim();
+  const seen = new Set<string>();
+  let rejected = 0;
+  const relationships: DetectedRelationship[] = [];
+
+  for (const item of items) {
+    const rel = validateRelationship(item, candidates);
+    if (!rel) {
+      rejected++;
+      continue;
     }
 
-    // Find JSON array
-    const arrayMatch = jsonText.match(/\[[\s\S]*\]/);
-    if (!arrayMatch) {
-      logger.warn('No JSON array found in Claude response', {
-        responsePreview: response.substring(0, 200),
+    if (rel.strength < relationshipConfig.minStrength) {
+      logger.debug('Relationship below minimum strength threshold', {
+        strength: rel.strength,
+        threshold: relationshipConfig.minStrength,
       });
-      return [];
+      continue;
     }
 
-    const parsed = JSON.parse(arrayMatch[0]);
-
-    if (!Array.isArray(parsed)) {
-      logger.warn('Claude response is not an array', { parsed });
-      return [];
+    // One relationship per candidate
+    if (!seen.has(rel.related_memory_id)) {
+      seen.add(rel.related_memory_id);
+      relationships.push({ ...rel, memory_id: newMemoryId });
     }
+  }
 
-    // Validate and sanitize each relationship
-    const validRelationships = parsed
-      .map(validateRelationship)
-      .filter((rel): rel is DetectedRelationship => rel !== null)
-      .slice(0, relationshipConfig.maxRelationships)
-      .map(rel => ({ ...rel, memory_id: newMemoryId }));
-
-    logger.debug('Parsed relationships from Claude', {
-      total: parsed.length,
-      valid: validRelationships.length,
-    });
+  logger.debug('Parsed relationships from LLM', {
+    total: items.length,
+    valid: relationships.length,
+    rejected,
+  });
 
-    return validRelationships;
-  } catch (error: any) {
-    logger.error('Error parsing Claude response', {
-      error: error.message,
-      responsePreview: response.substring(0, 500),
-    });
-    return [];
-  }
+  return {
+    relationships: relationships.slice(0, relationshipConfig.maxRelationships),
+    rejected,
+  };
 }
 
 // ============================================================================
@@ -383,28 +446,132 @@ async function withRetry<T>(
 async function fetchRecentMemories(
   userId: string,
   excludeMemoryId: string
-): Promise<Array<{ id: string; text: string; created_at: string }>> {
+): Promise<CandidateMemory[]> {
   const tracker = new DBMetricsTracker('select', 'memories');
 
   try {
-    const { data, error } = await supabase
-      .from('memories')
-      .select('id, text, created_at')
-      .eq('user_id', userId)
-      .neq('id', excludeMemoryId)
-      .order('created_at', { ascending: false })
-      .limit(relationshipConfig.recentMemoriesLimit);
+    const data = await store.memories.list(userId, {
+      excludeId: excludeMemoryId,
+      limit: relationshipConfig.recentMemoriesLimit,
+    });
 
-    if (error) throw error;
+    tracker.finish(true);
+    return data.map(m => ({ id: m.id, text: m.text, created_at: m.created_at }));
+  } catch (error) {
+    tracker.finish(false);
+    throw error;
+  }
+}
+
+/**
+ * The window of memories created just before `memory` - what detection
+ * would have compared against when the memory was created
+ */
+async function fetchPrecedingMemories(
+  userId: string,
+  memory: { id: string; created_at: string },
+  limit: number = relationshipConfig.recentMemoriesLimit
+): Promise<CandidateMemory[]> {
+  const tracker = new DBMetricsTracker('select', 'memories');
+
+  try {
+    const page = await store.memories.listPage(userId, {
+      sort: 'created',
+      order: 'desc',
+      limit,
+      after: { value: memory.created_at, id: memory.id },
+    });
 
     tracker.finish(true);
-    return data || [];
+    return page.memories.map(m => ({ id: m.id, text: m.text, created_at: m.created_at }));
   } catch (error) {
     tracker.finish(false);
     throw error;
   }
 }
 
+/**
+ * Nearest neighbours of `memory` by embedding among the memories created
+ * before it. With `recencyWeight` > 0 a larger pool is fetched and re-ranked
+ * by a blend of similarity and an exponential recency decay.
+ */
+async function fetchSimilarMemories(
+  userId: string,
+  memory: { id: string; created_at: string },
+  embedding: number[],
+  recencyWeight: number
+): Promise<CandidateMemory[]> {
+  const tracker = new DBMetricsTracker('rpc', 'match_memories_filtered');
+  const limit = relationshipConfig.candidateLimit;
+
+  try {
+    const matches = await store.memories.matchByEmbedding(userId, embedding, {
+      threshold: relationshipConfig.candidateMinSimilarity,
+      count: (recencyWeight > 0 ? limit * 3 : limit) + 1,
+      createdBefore: memory.created_at,
+    });
+    tracker.finish(true);
+
+    const createdAt = Date.parse(memory.created_at);
+    const halfLifeMs = relationshipConfig.recencyHalfLifeDays * 24 * 60 * 60 * 1000;
+    const score = (match: { similarity: number; created_at: string }) => {
+      const age = Math.max(0, createdAt - Date.parse(match.created_at));
+      const recency = halfLifeMs > 0 ? Math.pow(0.5, age / halfLifeMs) : 0;
+      return (1 - recencyWeight) * match.similarity + recencyWeight * recency;
+    };
+
+    return matches
+      .filter(m => m.id !== memory.id)
+      .map(m => ({ id: m.id, text: m.text, created_at: m.created_at, similarity: m.similarity, score: score(m) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ score, ...candidate }) => candidate);
+  } catch (error) {
+    tracker.finish(false);
+    throw error;
+  }
+}
+
+/**
+ * Pick the memories to compare `memory` against, using the configured
+ * candidate strategy. Only memories created before it are considered, so
+ * re-running detection later gives the same candidates as at creation.
+ * Memories without an embedding fall back to the most recent ones.
+ */
+export async function selectCandidates(
+  userId: string,
+  memory: Pick<MemoryRecord, 'id' | 'created_at' | 'embedding'>
+): Promise<CandidateMemory[]> {
+  const strategy = relationshipConfig.candidateStrategy;
+  const embedding = strategy === 'recent' ? null : parseEmbedding(memory.embedding);
+
+  if (!embedding) {
+    candidateSelections.inc({ strategy: 'recent' });
+    return fetchPrecedingMemories(userId, memory);
+  }
+
+  candidateSelections.inc({ strategy });
+  return fetchSimilarMemories(
+    userId,
+    memory,
+    embedding,
+    strategy === 'hybrid' ? relationshipConfig.recencyWeight : 0
+  );
+}
+
+async function recordDetectionStatus(
+  userId: string,
+  memoryId: string,
+  status: DetectionStatusUpdate
+): Promise<void> {
+  try {
+    await store.memories.setDetectionStatus(userId, memoryId, status);
+  } catch (error: any) {
+    // Status is informational; never fail detection over it
+    logger.warn('Failed to record detection status', { memoryId, error: error.message });
+  }
+}
+
 async function storeRelationships(
   relationships: DetectedRelationship[],
   userId: string
@@ -416,56 +583,64 @@ async function storeRelationships(
   const tracker = new DBMetricsTracker('insert', 'memory_relationships');
 
   try {
-    // Check for existing relationships to maintain idempotency
-    const { data: existing, error: checkError } = await supabase
-      .from('memory_relationships')
-      .select('memory_id, related_memory_id')
-      .or(
-        relationships
-          .map(r => `and(memory_id.eq.${r.memory_id},related_memory_id.eq.${r.related_memory_id})`)
-          .join(',')
-      );
+    // Look up existing edges for each pair in both directions. The reverse
+    // edge already describes the pair (read from the other end it carries
+    // the inverse type), so only same-direction AI edges are refreshed.
+    const existing = new Map(
+      (await store.relationships.findPairs([
+        ...relationships,
+        ...relationships.map(r => ({ memory_id: r.related_memory_id, related_memory_id: r.memory_id })),
+      ])).map(rel => [relationshipPairKey(rel.memory_id, rel.related_memory_id), rel])
+    );
 
-    if (checkError) {
-      logger.warn('Error checking existing relationships', { error: checkError });
+    const inserts: DetectedRelationship[] = [];
+    let refreshed = 0;
+    let protectedCount = 0;
+
+    for (const rel of relationships) {
+      const forward = existing.get(relationshipPairKey(rel.memory_id, rel.related_memory_id));
+      const reverse = existing.get(relationshipPairKey(rel.related_memory_id, rel.memory_id));
+
+      if (forward?.source === 'user' || reverse?.source === 'user') {
+        // User-curated edges are never overwritten by detection
+        protectedCount++;
+      } else if (forward) {
+        const changed =
+          forward.relationship_type !== rel.relationship_type ||
+          forward.strength !== rel.strength ||
+          forward.explanation !== rel.explanation;
+
+        if (changed) {
+          await store.relationships.update(forward.id, {
+            relationship_type: rel.relationship_type,
+            strength: rel.strength,
+            explanation: rel.explanation,
+          });
+          refreshed++;
+        }
+      } else if (!reverse) {
+        inserts.push(rel);
+      }
     }
 
-    // Filter out relationships that already exist
-    const existingPairs = new Set(
-      (existing || []).map((e: any) => `${e.memory_id}:${e.related_memory_id}`)
-    );
-
-    const newRelationships = relationships.filter(
-      r => !existingPairs.has(`${r.memory_id}:${r.related_memory_id}`)
-    );
+    if (inserts.length > 0) {
+      await store.relationships.insertMany(inserts.map(rel => ({ ...rel, source: 'ai' as const, user_id: userId })));
 
-    if (newRelationships.length === 0) {
-      logger.debug('All relationships already exist (idempotent)', {
-        totalAttempted: relationships.length,
+      // Track metrics
+      inserts.forEach(rel => {
+        relationshipsDetected.inc({ type: rel.relationship_type });
       });
-      tracker.finish(true);
-      return 0;
     }
 
-    // Insert new relationships with user_id
-    const { error: insertError } = await supabase
-      .from('memory_relationships')
-      .insert(newRelationships.map(rel => ({ ...rel, user_id: userId })));
-
-    if (insertError) throw insertError;
-
-    // Track metrics
-    newRelationships.forEach(rel => {
-      relationshipsDetected.inc({ type: rel.relationship_type });
-    });
-
     tracker.finish(true);
-    logger.info('Stored new relationships', {
-      count: newRelationships.length,
-      skipped: relationships.length - newRelationships.length,
+    logger.info('Stored relationships', {
+      inserted: inserts.length,
+      refreshed,
+      protected: protectedCount,
+      unchanged: relationships.length - inserts.length - refreshed - protectedCount,
     });
 
-    return newRelationships.length;
+    return inserts.length + refreshed;
   } catch (error) {
     tracker.finish(false);
     throw error;
@@ -476,21 +651,11 @@ async function storeRelationships(
 // Main Detection Function
 // ============================================================================
 
-/**
- * Detect and store relationships for a newly created memory
- *
- * This function is designed to be called asynchronously and will not throw
- * errors - instead, it logs them and returns a result object.
- *
- * @param newMemoryId - UUID of the newly created memory
- * @param newMemoryText - Text content of the new memory
- * @param userId - UUID of the user who owns the memory
- * @returns Promise<RelationshipDetectionResult> - Result with success status and metadata
- */
-export async function detectRelationships(
+async function runDetection(
   newMemoryId: string,
   newMemoryText: string,
-  userId: string
+  userId: string,
+  options: DetectionOptions = {}
 ): Promise<RelationshipDetectionResult> {
   const startTime = Date.now();
   const endTimer = relationshipDetectionDuration.startTimer();
@@ -525,8 +690,8 @@ export async function detectRelationships(
       textLength: newMemoryText.length,
     });
 
-    // Step 1: Fetch recent memories
-    const recentMemories = await withRetry(
+    // Step 1: Fetch candidate memories (recent ones unless given)
+    const recentMemories = options.candidates ?? await withRetry(
       () => fetchRecentMemories(userId, newMemoryId),
       'fetch-recent-memories'
     );
@@ -543,24 +708,33 @@ export async function detectRelationships(
       };
     }
 
-    // Step 2: Build prompt and call Claude API
+    // Step 2: Build prompt, call the LLM and validate its structured output
+    // (a malformed response is retried like a failed call)
     const prompt = buildRelationshipPrompt(newMemoryText, recentMemories);
-    const claudeResponse = await withRetry(
-      () => callClaudeAPI(prompt),
-      'claude-api-call'
+    const { relationships: parsedRelationships, rejected } = await withRetry(
+      async () => parseDetectionOutput(
+        await callLLM(prompt, newMemoryText, recentMemories),
+        recentMemories,
+        newMemoryId
+      ),
+      'llm-call'
     );
 
-    // Step 3: Parse and validate relationships
-    const detectedRelationships = parseClaudeResponse(claudeResponse, newMemoryId);
+    // Step 3: Apply the user's feedback (calibrated thresholds, rejected pairs)
+    const { relationships: detectedRelationships, dropped } = await withRetry(
+      () => applyFeedback(userId, newMemoryId, parsedRelationships),
+      'apply-feedback'
+    );
 
     if (detectedRelationships.length === 0) {
-      logger.info('No relationships detected', { memoryId: newMemoryId });
+      logger.info('No relationships detected', { memoryId: newMemoryId, rejected, dropped });
       relationshipDetectionAttempts.inc({ status: 'no_relationships' });
       endTimer();
       return {
         success: true,
         relationshipsFound: 0,
         relationshipsStored: 0,
+        relationshipsRejected: rejected,
         processingTimeMs: Date.now() - startTime,
       };
     }
@@ -582,6 +756,8 @@ export async function detectRelationships(
       memoryId: newMemoryId,
       relationshipsFound: detectedRelationships.length,
       relationshipsStored: storedCount,
+      relationshipsRejected: rejected,
+      relationshipsDropped: dropped,
       processingTimeMs: Date.now() - startTime,
     });
 
@@ -589,6 +765,7 @@ export async function detectRelationships(
       success: true,
       relationshipsFound: detectedRelationships.length,
       relationshipsStored: storedCount,
+      relationshipsRejected: rejected,
       processingTimeMs: Date.now() - startTime,
     };
 
@@ -614,23 +791,109 @@ export async function detectRelationships(
   }
 }
 
+/**
+ * Detect and store relationships for a newly created memory
+ *
+ * This function is designed to be called asynchronously and will not throw
+ * errors - instead, it logs them and returns a result object. The outcome is
+ * recorded as the memory's detection_status.
+ *
+ * @param newMemoryId - UUID of the newly created memory
+ * @param newMemoryText - Text content of the new memory
+ * @param userId - UUID of the user who owns the memory
+ * @param options - Optional candidate memories to compare against
+ * @returns Promise<RelationshipDetectionResult> - Result with success status and metadata
+ */
+export async function detectRelationships(
+  newMemoryId: string,
+  newMemoryText: string,
+  userId: string,
+  options: DetectionOptions = {}
+): Promise<RelationshipDetectionResult> {
+  const result = await runDetection(newMemoryId, newMemoryText, userId, options);
+
+  if (relationshipConfig.enabled) {
+    await recordDetectionStatus(userId, newMemoryId, {
+      detection_status: result.success ? 'succeeded' : 'failed',
+      detection_error: result.success ? null : result.error || 'Relationship detection failed',
+      detected_at: new Date().toISOString(),
+    });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Background Jobs
+// ============================================================================
+
+export const RELATIONSHIP_DETECTION_JOB = 'relationship_detection';
+
+/**
+ * Queue durable relationship detection for a stored memory and mark it
+ * pending. Jobs run on the background worker, so detection survives
+ * restarts and is retried.
+ *
+ * @returns the queued job, or null when detection is disabled
+ */
+export async function queueRelationshipDetection(memoryId: string, userId: string): Promise<JobRecord | null> {
+  if (!relationshipConfig.enabled) {
+    return null;
+  }
+
+  const job = await jobQueue.enqueue(RELATIONSHIP_DETECTION_JOB, { memoryId }, { userId });
+  await recordDetectionStatus(userId, memoryId, {
+    detection_status: 'pending',
+    detection_error: null,
+    detected_at: null,
+  });
+  return job;
+}
+
+jobQueue.register(RELATIONSHIP_DETECTION_JOB, async job => {
+  const memory = await store.memories.getById(job.user_id!, job.payload.memoryId);
+  if (!memory) {
+    // Deleted before detection ran - nothing to do
+    return { skipped: 'memory_not_found' };
+  }
+
+  const candidates = await selectCandidates(memory.user_id, memory);
+  const result = await detectRelationships(memory.id, memory.text, memory.user_id, { candidates });
+  if (!result.success && result.error !== 'Feature disabled') {
+    throw new Error(result.error || 'Relationship detection failed');
+  }
+
+  return result;
+});
+
 // ============================================================================
 // Health Check
 // ============================================================================
 
+/**
+ * Whether LLM calls are currently being rejected by the circuit breaker
+ */
+export function isDetectionCircuitOpen(): boolean {
+  return llmCircuitBreaker.getState() === 'OPEN';
+}
+
 /**
  * Check if the relationship detection service is healthy and ready
  */
 export async function checkRelationshipDetectionHealth(): Promise<{
   healthy: boolean;
   enabled: boolean;
+  provider: string;
+  model: string | null;
   circuitBreakerState: string;
   apiKeyConfigured: boolean;
 }> {
   return {
-    healthy: relationshipConfig.enabled && claudeCircuitBreaker.getState() !== 'OPEN',
+    healthy: relationshipConfig.enabled && llmCircuitBreaker.getState() !== 'OPEN',
     enabled: relationshipConfig.enabled,
-    circuitBreakerState: claudeCircuitBreaker.getState(),
-    apiKeyConfigured: !!relationshipConfig.claudeApiKey,
+    provider: relationshipConfig.llmProvider,
+    model: llmProvider?.model ?? null,
+    circuitBreakerState: llmCircuitBreaker.getState(),
+    apiKeyConfigured: llmProvider !== null,
   };
 }
@@ -0,0 +1,230 @@
+/**
+ * Relationship Feedback
+ *
+ * Users accept, reject or retype detected relationships (explicitly, or by
+ * editing and deleting them). Their judgements drive:
+ * - Precision per detected type (accepted / judged)
+ * - Per-user strength thresholds: the lowest strength at which the user's
+ *   judged relationships reach the target precision, per type and overall,
+ *   never below relationshipConfig.minStrength
+ * - Suppression of rejected pairs, so re-detection does not recreate them
+ */
+
+import { Counter } from 'prom-client';
+import {
+  store,
+  FeedbackVerdict,
+  OwnedRelationship,
+  RelationshipFeedback,
+  relationshipPairKey,
+} from '../storage/index.js';
+import { DetectedRelationship, RelationshipType } from '../types/recallbricks.js';
+import { relationshipConfig } from '../config/relationshipDetection.js';
+import { logger } from '../utils/logger.js';
+
+const feedbackRecorded = new Counter({
+  name: 'recallbricks_relationship_feedback_total',
+  help: 'Total number of relationship judgements by detected type and verdict',
+  labelNames: ['type', 'verdict'],
+});
+
+export interface TypePrecision {
+  judged: number;
+  accepted: number;
+  rejected: number;
+  retyped: number;
+  // accepted / judged; null without feedback
+  precision: number | null;
+}
+
+export interface StrengthThresholds {
+  // For types without enough feedback of their own
+  default: number;
+  types: Partial<Record<RelationshipType, number>>;
+  feedbackCount: number;
+}
+
+// Per-user thresholds; dropped when the user gives feedback
+const thresholdCache = new Map<string, { thresholds: StrengthThresholds; expiresAt: number }>();
+
+/**
+ * Record a judgement of a detected relationship
+ */
+export async function recordFeedback(
+  relationship: OwnedRelationship,
+  verdict: FeedbackVerdict,
+  correctedType: RelationshipType | null = null
+): Promise<RelationshipFeedback> {
+  const feedback = await store.feedback.insert({
+    user_id: relationship.user_id,
+    relationship_id: verdict === 'reject' ? null : relationship.id,
+    memory_id: relationship.memory_id,
+    related_memory_id: relationship.related_memory_id,
+    verdict,
+    relationship_type: relationship.relationship_type,
+    strength: relationship.strength,
+    corrected_type: correctedType,
+  });
+
+  feedbackRecorded.inc({ type: relationship.relationship_type, verdict });
+  thresholdCache.delete(relationship.user_id);
+
+  logger.info('Relationship feedback recorded', {
+    relationshipId: relationship.id,
+    userId: relationship.user_id,
+    verdict,
+  });
+
+  return feedback;
+}
+
+export function precisionByType(feedback: RelationshipFeedback[]): Record<string, TypePrecision> {
+  const stats: Record<string, TypePrecision> = {};
+
+  for (const entry of feedback) {
+    const type = (stats[entry.relationship_type] ??= {
+      judged: 0,
+      accepted: 0,
+      rejected: 0,
+      retyped: 0,
+      precision: null,
+    });
+
+    type.judged++;
+    if (entry.verdict === 'accept') type.accepted++;
+    else if (entry.verdict === 'reject') type.rejected++;
+    else type.retyped++;
+  }
+
+  for (const type of Object.values(stats)) {
+    type.precision = type.accepted / type.judged;
+  }
+
+  return stats;
+}
+
+/**
+ * Lowest judged strength at which the judgements at or above it reach the
+ * target precision. Without enough samples the baseline is kept; when no
+ * strength reaches the target, only relationships stronger than every judged
+ * one pass.
+ */
+function calibrateThreshold(samples: Array<{ strength: number; correct: boolean }>, baseline: number): number {
+  if (samples.length < relationshipConfig.calibrationMinFeedback) {
+    return baseline;
+  }
+
+  const strongestFirst = [...samples].sort((a, b) => b.strength - a.strength);
+  let correct = 0;
+  let threshold: number | null = null;
+
+  for (let i = 0; i < strongestFirst.length; i++) {
+    const { strength } = strongestFirst[i];
+    if (strongestFirst[i].correct) correct++;
+
+    // Evaluate once per distinct strength, with all of its samples counted
+    if (strongestFirst[i + 1]?.strength === strength) continue;
+
+    if (correct / (i + 1) >= relationshipConfig.calibrationTargetPrecision) {
+      threshold = strength;
+    }
+  }
+
+  const calibrated = threshold ?? Math.min(Math.round((strongestFirst[0].strength + 0.01) * 100) / 100, 1);
+  return Math.max(baseline, calibrated);
+}
+
+/**
+ * Derive strength thresholds from a user's feedback. Per type, only accepted
+ * relationships count as correct; overall, a retyped relationship still
+ * counts because the memories were related.
+ */
+export function calibrateThresholds(feedback: RelationshipFeedback[]): StrengthThresholds {
+  const baseline = relationshipConfig.minStrength;
+
+  const thresholds: StrengthThresholds = {
+    default: calibrateThreshold(
+      feedback.map(f => ({ strength: f.strength, correct: f.verdict !== 'reject' })),
+      baseline
+    ),
+    types: {},
+    feedbackCount: feedback.length,
+  };
+
+  const byType = new Map<RelationshipType, RelationshipFeedback[]>();
+  for (const entry of feedback) {
+    byType.set(entry.relationship_type, [...(byType.get(entry.relationship_type) ?? []), entry]);
+  }
+
+  for (const [type, entries] of byType) {
+    if (entries.length >= relationshipConfig.calibrationMinFeedback) {
+      thresholds.types[type] = calibrateThreshold(
+        entries.map(f => ({ strength: f.strength, correct: f.verdict === 'accept' })),
+        baseline
+      );
+    }
+  }
+
+  return thresholds;
+}
+
+/**
+ * The user's calibrated thresholds, from their most recent feedback
+ */
+export async function getStrengthThresholds(userId: string): Promise<StrengthThresholds> {
+  if (!relationshipConfig.calibrationEnabled) {
+    return { default: relationshipConfig.minStrength, types: {}, feedbackCount: 0 };
+  }
+
+  const cached = thresholdCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.thresholds;
+  }
+
+  const feedback = await store.feedback.list(userId, { limit: relationshipConfig.calibrationWindow });
+  const thresholds = calibrateThresholds(feedback);
+
+  thresholdCache.set(userId, { thresholds, expiresAt: Date.now() + relationshipConfig.calibrationCacheTtl });
+  return thresholds;
+}
+
+/**
+ * Drop detected relationships below the user's calibrated threshold for
+ * their type, and pairs the user has rejected before
+ */
+export async function applyFeedback(
+  userId: string,
+  memoryId: string,
+  relationships: DetectedRelationship[]
+): Promise<{ relationships: DetectedRelationship[]; dropped: number }> {
+  if (relationships.length === 0) {
+    return { relationships, dropped: 0 };
+  }
+
+  const [thresholds, rejections] = await Promise.all([
+    getStrengthThresholds(userId),
+    store.feedback.list(userId, { verdict: 'reject', memoryId }),
+  ]);
+
+  const rejectedPairs = new Set(
+    rejections.flatMap(f => [
+      relationshipPairKey(f.memory_id, f.related_memory_id),
+      relationshipPairKey(f.related_memory_id, f.memory_id),
+    ])
+  );
+
+  const kept = relationships.filter(rel =>
+    rel.strength >= (thresholds.types[rel.relationship_type] ?? thresholds.default) &&
+    !rejectedPairs.has(relationshipPairKey(rel.memory_id, rel.related_memory_id))
+  );
+
+  if (kept.length < relationships.length) {
+    logger.debug('Relationships dropped by feedback', {
+      memoryId,
+      dropped: relationships.length - kept.length,
+      thresholds,
+    });
+  }
+
+  return { relationships: kept, dropped: relationships.length - kept.length };
+}
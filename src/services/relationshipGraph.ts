@@ -0,0 +1,110 @@
+/**
+ * Relationship Graph
+ *
+ * Breadth-first walk of the relationships around a memory, used by the
+ * graph endpoint and the MCP server.
+ */
+
+import {
+  store,
+  INVERSE_RELATIONSHIP_TYPES,
+  RelationshipDirection,
+  RelatedMemorySummary,
+} from '../storage/index.js';
+import { Memory, RelationshipType } from '../types/recallbricks.js';
+import { logger } from '../utils/logger.js';
+
+// Deeper graphs get too large to return in one response
+export const MAX_GRAPH_DEPTH = 3;
+
+// Relationships followed from each memory
+const EDGES_PER_NODE = 20;
+
+export interface GraphOptions {
+  depth: number;
+  minStrength: number;
+  direction: RelationshipDirection | 'both';
+}
+
+export interface GraphEdge {
+  id: string;
+  from: string;
+  to: string;
+  type: RelationshipType;
+  strength: number;
+  explanation: string;
+}
+
+export interface RelationshipGraph {
+  nodes: RelatedMemorySummary[];
+  edges: GraphEdge[];
+  // The depth actually walked (capped at MAX_GRAPH_DEPTH)
+  depth: number;
+}
+
+/**
+ * The memories reachable from `root` within `depth` hops over relationships
+ * of at least `minStrength`. Symmetric edges are followed from both ends
+ * whatever the direction. Edges are always reported in their stored
+ * direction.
+ */
+export async function buildRelationshipGraph(root: Memory, options: GraphOptions): Promise<RelationshipGraph> {
+  const maxDepth = Math.min(options.depth, MAX_GRAPH_DEPTH);
+
+  const visited = new Set<string>();
+  const nodeIds = new Set<string>([root.id]);
+  const edgeIds = new Set<string>();
+  const nodes: RelatedMemorySummary[] = [{ id: root.id, text: root.text, created_at: root.created_at }];
+  const edges: GraphEdge[] = [];
+  const queue: Array<{ id: string; depth: number }> = [{ id: root.id, depth: 0 }];
+
+  while (queue.length > 0) {
+    const { id, depth } = queue.shift()!;
+
+    if (visited.has(id) || depth >= maxDepth) {
+      continue;
+    }
+
+    visited.add(id);
+
+    // Get relationships for this memory
+    let relationships;
+    try {
+      relationships = await store.relationships.listForMemory(id, {
+        minStrength: options.minStrength,
+        limit: EDGES_PER_NODE,
+        direction: options.direction,
+      });
+    } catch (relError: any) {
+      logger.error('Error fetching relationships in graph', { error: relError.message });
+      continue;
+    }
+
+    for (const rel of relationships) {
+      // An edge is reached from both ends when following both directions or
+      // when it is symmetric
+      if (!edgeIds.has(rel.id)) {
+        edgeIds.add(rel.id);
+        const outgoing = rel.direction === 'out';
+        edges.push({
+          id: rel.id,
+          from: outgoing ? rel.memory_id : rel.related_memory_id,
+          to: outgoing ? rel.related_memory_id : rel.memory_id,
+          type: outgoing ? rel.relationship_type : INVERSE_RELATIONSHIP_TYPES[rel.relationship_type],
+          strength: rel.strength,
+          explanation: rel.explanation,
+        });
+      }
+
+      if (!visited.has(rel.related_memory_id) && rel.related_memory) {
+        if (!nodeIds.has(rel.related_memory_id)) {
+          nodeIds.add(rel.related_memory_id);
+          nodes.push(rel.related_memory);
+        }
+        queue.push({ id: rel.related_memory_id, depth: depth + 1 });
+      }
+    }
+  }
+
+  return { nodes, edges, depth: maxDepth };
+}
@@ -0,0 +1,85 @@
+/**
+ * Memory Trash
+ *
+ * Deleted memories stay in the trash (hidden from listings, search and
+ * context, with their relationships hidden) for trashConfig.retentionDays,
+ * during which they can be restored. Processes running the job worker purge
+ * expired memories every trashConfig.purgeInterval; purging is idempotent, so
+ * several workers may run it.
+ */
+
+import { Counter } from 'prom-client';
+import { store } from '../storage/index.js';
+import { trashConfig } from '../config/trash.js';
+import { jobQueueConfig } from '../config/jobQueue.js';
+import { logger } from '../utils/logger.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const memoriesPurged = new Counter({
+  name: 'recallbricks_memories_purged_total',
+  help: 'Total number of trashed memories permanently deleted after the retention period',
+});
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+/**
+ * When a memory deleted at `deletedAt` will be purged; null when retention
+ * is unlimited
+ */
+export function purgeAt(deletedAt: string): string | null {
+  if (trashConfig.retentionDays <= 0) return null;
+  return new Date(Date.parse(deletedAt) + trashConfig.retentionDays * DAY_MS).toISOString();
+}
+
+/**
+ * Permanently delete every memory trashed longer than the retention period
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  if (trashConfig.retentionDays <= 0) return 0;
+
+  const before = new Date(now.getTime() - trashConfig.retentionDays * DAY_MS).toISOString();
+
+  let purged = 0;
+  let batch: number;
+  do {
+    batch = await store.memories.purgeTrash(before, trashConfig.purgeBatchSize);
+    purged += batch;
+  } while (batch === trashConfig.purgeBatchSize);
+
+  if (purged > 0) {
+    memoriesPurged.inc(purged);
+    logger.info('Expired memories purged from trash', { purged, before });
+  }
+
+  return purged;
+}
+
+export function startTrashPurge(): void {
+  if (!jobQueueConfig.workerEnabled || trashConfig.retentionDays <= 0 || purgeTimer) {
+    return;
+  }
+
+  const run = () => {
+    purgeExpiredTrash()
+      .catch(error => logger.error('Failed to purge trash', { error: error.message }))
+      .finally(() => {
+        if (purgeTimer) {
+          purgeTimer = setTimeout(run, trashConfig.purgeInterval);
+        }
+      });
+  };
+
+  purgeTimer = setTimeout(run, 0);
+  logger.info('Trash purge scheduled', {
+    retentionDays: trashConfig.retentionDays,
+    interval: trashConfig.purgeInterval,
+  });
+}
+
+export function stopTrashPurge(): void {
+  if (purgeTimer) {
+    clearTimeout(purgeTimer);
+    purgeTimer = null;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Storage Backend Selection
+ *
+ * Chooses the storage implementation from STORAGE_BACKEND:
+ * - supabase (default): Supabase PostgreSQL with pgvector
+ * - memory: process-local storage for development and tests
+ *
+ * The Supabase backend is imported lazily so the memory backend can run
+ * without any Supabase configuration.
+ */
+
+import dotenv from 'dotenv';
+import { logger } from '../utils/logger.js';
+import { InMemoryStorageBackend, parseSeedApiKeys } from './memoryStore.js';
+import { StorageBackend, StorageBackendName } from './types.js';
+
+export * from './types.js';
+
+dotenv.config();
+
+export function resolveStorageBackendName(value: string | undefined): StorageBackendName {
+  const name = (value || 'supabase').trim().toLowerCase();
+
+  if (name !== 'supabase' && name !== 'memory') {
+    throw new Error(`[BOOT] Unknown STORAGE_BACKEND: ${value} (expected "supabase" or "memory")`);
+  }
+
+  return name;
+}
+
+export async function createStorageBackend(name: StorageBackendName): Promise<StorageBackend> {
+  if (name === 'memory') {
+    const seedKeys = parseSeedApiKeys(process.env.MEMORY_STORE_API_KEYS);
+
+    logger.warn('Using in-memory storage backend - data will not persist', {
+      seededApiKeys: seedKeys.length,
+    });
+
+    return new InMemoryStorageBackend(seedKeys);
+  }
+
+  const { SupabaseStorageBackend } = await import('./supabaseStore.js');
+  return new SupabaseStorageBackend();
+}
+
+export const store: StorageBackend = await createStorageBackend(
+  resolveStorageBackendName(process.env.STORAGE_BACKEND)
+);
+
+export default store;
@@ -0,0 +1,988 @@
+/**
+ * In-Memory Storage Backend
+ *
+ * Process-local storage for local development and tests. Mirrors the
+ * behaviour of the Supabase backend (ordering, filters, vector matching)
+ * without any external services. Data is lost when the process exits.
+ */
+
+import { randomUUID } from 'crypto';
+import { MemoryRelationship } from '../types/recallbricks.js';
+import {
+  ApiKeyRecord,
+  ApiKeyStore,
+  ApiKeySummary,
+  DetectionStatusUpdate,
+  EmbeddingColumns,
+  EmbeddingModel,
+  EmbeddingModelCount,
+  ProjectSummary,
+  FeedbackListOptions,
+  JobListOptions,
+  JobRecord,
+  JobStore,
+  MemoryFilters,
+  MemoryListOptions,
+  MemoryMatch,
+  MemoryMatchOptions,
+  MemoryPage,
+  MemoryPageOptions,
+  MemoryRecord,
+  MemorySelection,
+  MemoryStore,
+  BulkMemoryChanges,
+  MemoryUpdate,
+  MemoryVersion,
+  MemoryVersionStore,
+  NewJob,
+  NewMemory,
+  NewApiKey,
+  NewRelationship,
+  NewRelationshipFeedback,
+  OwnedRelationship,
+  RelatedMemorySummary,
+  RelationshipFeedback,
+  RelationshipFeedbackStore,
+  RelationshipListOptions,
+  RelationshipStore,
+  RelationshipUpdate,
+  RelationshipWithMemory,
+  StaleEmbedding,
+  StaleEmbeddingOptions,
+  StorageBackend,
+  StorageHealth,
+  TrashListOptions,
+  UserRelationshipListOptions,
+  MEMORY_SORT_COLUMNS,
+  SYMMETRIC_RELATIONSHIP_TYPES,
+  countEmbeddingModels,
+  summarizeProjects,
+  summarizeApiKey,
+  invertRelationship,
+  parseEmbedding,
+  relationshipPairKey,
+} from './types.js';
+
+interface StoredApiKey extends Omit<ApiKeySummary, 'key_prefix'> {
+  key: string;
+}
+
+interface StoredRelationship extends MemoryRelationship {
+  user_id: string;
+}
+
+export interface InMemoryState {
+  memories: Map<string, MemoryRecord>;
+  relationships: Map<string, StoredRelationship>;
+  feedback: Map<string, RelationshipFeedback>;
+  // By memory id, oldest first
+  versions: Map<string, MemoryVersion[]>;
+  apiKeys: Map<string, StoredApiKey>;
+  jobs: Map<string, JobRecord>;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function newestFirst(a: { created_at: string; id: string }, b: { created_at: string; id: string }): number {
+  if (a.created_at === b.created_at) return b.id.localeCompare(a.id);
+  return a.created_at < b.created_at ? 1 : -1;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Approximates Postgres websearch_to_tsquery: alternatives separated by
+ * "or" (or "|") match if every term of any alternative appears in the text
+ */
+export function matchesTextQuery(text: string, query: string): boolean {
+  const words = new Set(tokenize(text));
+  const alternatives = query
+    .toLowerCase()
+    .split(/\s+(?:or|\|)\s+/)
+    .map(tokenize)
+    .filter(terms => terms.length > 0);
+
+  if (alternatives.length === 0) return true;
+
+  return alternatives.some(terms =>
+    terms.every(term => words.has(term) || [...words].some(word => word.startsWith(term)))
+  );
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function matchesFilters(memory: MemoryRecord, filters: MemoryFilters): boolean {
+  if (filters.tags?.length && !filters.tags.every(tag => (memory.tags || []).includes(tag))) return false;
+  if (filters.source && memory.source !== filters.source) return false;
+  if (filters.projectId && memory.project_id !== filters.projectId) return false;
+
+  const created = Date.parse(memory.created_at);
+  if (filters.createdAfter && created < Date.parse(filters.createdAfter)) return false;
+  if (filters.createdBefore && created > Date.parse(filters.createdBefore)) return false;
+
+  return true;
+}
+
+const VERSIONED_FIELDS = ['text', 'source', 'project_id', 'tags', 'metadata'] as const;
+
+/**
+ * Mirror the memories_record_version trigger: keep the previous state when a
+ * versioned field changes
+ */
+function recordVersion(state: InMemoryState, previous: MemoryRecord, next: MemoryRecord): void {
+  const changed = VERSIONED_FIELDS.some(
+    field => JSON.stringify(previous[field] ?? null) !== JSON.stringify(next[field] ?? null)
+  );
+  if (!changed) return;
+
+  const versions = state.versions.get(previous.id) ?? [];
+  versions.push({
+    id: randomUUID(),
+    memory_id: previous.id,
+    user_id: previous.user_id,
+    version: versions.length + 1,
+    text: previous.text,
+    source: previous.source,
+    project_id: previous.project_id,
+    tags: previous.tags,
+    metadata: previous.metadata ?? {},
+    valid_from: previous.updated_at,
+    valid_until: next.updated_at,
+  });
+  state.versions.set(previous.id, versions);
+}
+
+function stripEmbedding({ embedding, ...memory }: MemoryRecord) {
+  return memory;
+}
+
+/**
+ * The memory, unless it is missing or in the trash
+ */
+function liveMemory(state: InMemoryState, id: string): MemoryRecord | null {
+  const memory = state.memories.get(id);
+  return memory && !memory.deleted_at ? memory : null;
+}
+
+function userMemories(state: InMemoryState, userId: string): MemoryRecord[] {
+  return [...state.memories.values()].filter(m => m.user_id === userId && !m.deleted_at);
+}
+
+class InMemoryMemoryStore implements MemoryStore {
+  constructor(private state: InMemoryState) {}
+
+  async insert(memory: NewMemory): Promise<MemoryRecord> {
+    const timestamp = now();
+    const record = {
+      metadata: null,
+      embedding: null,
+      ...memory,
+      id: memory.id || randomUUID(),
+      created_at: memory.created_at || timestamp,
+      updated_at: timestamp,
+    } as MemoryRecord;
+
+    this.state.memories.set(record.id, record);
+    return { ...record };
+  }
+
+  async insertMany(memories: NewMemory[]): Promise<MemoryRecord[]> {
+    return Promise.all(memories.map(memory => this.insert(memory)));
+  }
+
+  async getById(userId: string, id: string): Promise<MemoryRecord | null> {
+    const memory = liveMemory(this.state, id);
+    return memory && memory.user_id === userId ? { ...memory } : null;
+  }
+
+  async getMany(userId: string, ids: string[]): Promise<MemoryRecord[]> {
+    return ids
+      .map(id => liveMemory(this.state, id))
+      .filter((memory): memory is MemoryRecord => memory?.user_id === userId)
+      .map(memory => ({ ...memory }));
+  }
+
+  async findByTextHash(userId: string, projectId: string, hash: string): Promise<MemoryRecord | null> {
+    const [oldest] = userMemories(this.state, userId)
+      .filter(m => m.project_id === projectId && m.text_hash === hash)
+      .sort((a, b) => -newestFirst(a, b));
+
+    return oldest ? { ...oldest } : null;
+  }
+
+  async findOwners(ids: string[]): Promise<Map<string, string>> {
+    const owners = new Map<string, string>();
+    for (const id of ids) {
+      const memory = this.state.memories.get(id);
+      if (memory) owners.set(id, memory.user_id);
+    }
+    return owners;
+  }
+
+  async list(userId: string, options: MemoryListOptions = {}): Promise<MemoryRecord[]> {
+    const results = userMemories(this.state, userId)
+      .filter(m => !options.query || matchesTextQuery(m.text, options.query))
+      .filter(m => matchesFilters(m, options))
+      .filter(m => !options.excludeId || m.id !== options.excludeId)
+      .sort(newestFirst);
+
+    const offset = options.offset || 0;
+    const end = options.limit !== undefined ? offset + options.limit : undefined;
+
+    return results.slice(offset, end).map(m => ({ ...m }));
+  }
+
+  /**
+   * Mirrors the relationship_strength column maintained by trigger in Postgres
+   * (edges to memories in the trash do not count)
+   */
+  private relationshipStrength(memoryId: string): number {
+    let total = 0;
+    for (const rel of this.state.relationships.values()) {
+      const other = rel.memory_id === memoryId ? rel.related_memory_id
+        : rel.related_memory_id === memoryId ? rel.memory_id
+        : null;
+      if (other && liveMemory(this.state, other)) {
+        total += rel.strength;
+      }
+    }
+    return total;
+  }
+
+  async listPage(userId: string, options: MemoryPageOptions): Promise<MemoryPage> {
+    const column = MEMORY_SORT_COLUMNS[options.sort || 'created'];
+    const direction = options.order === 'asc' ? 1 : -1;
+    const compare = (a: MemoryRecord, b: MemoryRecord): number => {
+      const av = a[column] ?? 0;
+      const bv = b[column] ?? 0;
+      if (av !== bv) return (av < bv ? -1 : 1) * direction;
+      return a.id.localeCompare(b.id) * direction;
+    };
+
+    const matching = userMemories(this.state, userId)
+      .filter(m => matchesFilters(m, options))
+      .map(m => ({ ...m, relationship_strength: this.relationshipStrength(m.id) }));
+
+    const after = options.after;
+    const cursorRow = after ? { [column]: after.value, id: after.id } as unknown as MemoryRecord : null;
+
+    const results = matching
+      .filter(m => !cursorRow || compare(m, cursorRow) > 0)
+      .sort(compare);
+
+    return {
+      memories: results.slice(0, options.limit),
+      hasMore: results.length > options.limit,
+      total: options.count ? matching.length : null,
+    };
+  }
+
+  async update(userId: string, id: string, updates: MemoryUpdate): Promise<MemoryRecord | null> {
+    const existing = liveMemory(this.state, id);
+    if (!existing || existing.user_id !== userId) {
+      return null;
+    }
+
+    const record = { ...existing, ...updates, updated_at: now() } as MemoryRecord;
+    recordVersion(this.state, existing, record);
+    this.state.memories.set(id, record);
+    return { ...record };
+  }
+
+  async selectIds(userId: string, selection: MemorySelection): Promise<string[]> {
+    const ids = selection.ids ? new Set(selection.ids) : null;
+
+    return userMemories(this.state, userId)
+      .filter(m => !ids || ids.has(m.id))
+      .filter(m => !selection.query || matchesTextQuery(m.text, selection.query))
+      .filter(m => matchesFilters(m, selection))
+      .map(m => m.id)
+      .sort();
+  }
+
+  /**
+   * Mirrors the bulk_update_memories function (migrations/014)
+   */
+  async bulkUpdate(userId: string, ids: string[], changes: BulkMemoryChanges): Promise<number> {
+    let updated = 0;
+
+    for (const id of ids) {
+      const existing = liveMemory(this.state, id);
+      if (!existing || existing.user_id !== userId) continue;
+
+      const updates: MemoryUpdate = {};
+
+      if (changes.addTags || changes.removeTags) {
+        const removed = new Set(changes.removeTags ?? []);
+        updates.tags = [...new Set([...(existing.tags || []), ...(changes.addTags ?? [])])]
+          .filter(tag => !removed.has(tag));
+      }
+
+      if (changes.projectId) {
+        updates.project_id = changes.projectId;
+      }
+
+      if (changes.metadata) {
+        const metadata: Record<string, any> = { ...existing.metadata };
+        for (const [key, value] of Object.entries(changes.metadata)) {
+          if (value === null) delete metadata[key];
+          else metadata[key] = value;
+        }
+        updates.metadata = metadata;
+      }
+
+      await this.update(userId, id, updates);
+      updated++;
+    }
+
+    return updated;
+  }
+
+  async trash(userId: string, id: string): Promise<boolean> {
+    const existing = liveMemory(this.state, id);
+    if (!existing || existing.user_id !== userId) {
+      return false;
+    }
+
+    // Like detection status, not an edit: updated_at is kept
+    this.state.memories.set(id, { ...existing, deleted_at: now() });
+    return true;
+  }
+
+  async trashMany(userId: string, ids: string[]): Promise<number> {
+    let trashed = 0;
+    for (const id of ids) {
+      if (await this.trash(userId, id)) trashed++;
+    }
+    return trashed;
+  }
+
+  async restore(userId: string, id: string): Promise<MemoryRecord | null> {
+    const existing = this.state.memories.get(id);
+    if (!existing || existing.user_id !== userId || !existing.deleted_at) {
+      return null;
+    }
+
+    const record = { ...existing, deleted_at: null };
+    this.state.memories.set(id, record);
+    return { ...record };
+  }
+
+  async listTrash(userId: string, options: TrashListOptions): Promise<MemoryPage> {
+    const after = options.after;
+    const results = [...this.state.memories.values()]
+      .filter(m => m.user_id === userId && m.deleted_at)
+      .filter(m =>
+        !after ||
+        m.deleted_at! < String(after.value) ||
+        (m.deleted_at === after.value && m.id < after.id)
+      )
+      .sort((a, b) => (a.deleted_at === b.deleted_at ? b.id.localeCompare(a.id) : a.deleted_at! < b.deleted_at! ? 1 : -1));
+
+    return {
+      memories: results.slice(0, options.limit).map(m => ({ ...m })),
+      hasMore: results.length > options.limit,
+      total: null,
+    };
+  }
+
+  async setDetectionStatus(userId: string, id: string, status: DetectionStatusUpdate): Promise<void> {
+    const existing = this.state.memories.get(id);
+    if (existing && existing.user_id === userId) {
+      this.state.memories.set(id, { ...existing, ...status });
+    }
+  }
+
+  async listStaleEmbeddings(current: EmbeddingModel, options: StaleEmbeddingOptions): Promise<StaleEmbedding[]> {
+    return [...this.state.memories.values()]
+      .filter(m => !options.userId || m.user_id === options.userId)
+      .filter(m => !options.after || m.id > options.after)
+      .filter(m =>
+        !m.embedding ||
+        m.embedding_provider !== current.provider ||
+        m.embedding_model !== current.model ||
+        m.embedding_dim !== current.dimensions
+      )
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .slice(0, options.limit)
+      .map(({ id, user_id, text }) => ({ id, user_id, text }));
+  }
+
+  async setEmbedding(userId: string, id: string, embedding: EmbeddingColumns): Promise<void> {
+    const existing = this.state.memories.get(id);
+    if (existing && existing.user_id === userId) {
+      this.state.memories.set(id, { ...existing, ...embedding });
+    }
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const existing = this.state.memories.get(id);
+    if (!existing || existing.user_id !== userId) {
+      return false;
+    }
+
+    this.state.memories.delete(id);
+    this.state.versions.delete(id);
+
+    // Mirror ON DELETE CASCADE on memory_relationships
+    for (const [relId, rel] of this.state.relationships) {
+      if (rel.memory_id === id || rel.related_memory_id === id) {
+        this.state.relationships.delete(relId);
+      }
+    }
+
+    return true;
+  }
+
+  async purgeTrash(before: string, limit: number): Promise<number> {
+    const expired = [...this.state.memories.values()]
+      .filter(m => m.deleted_at && m.deleted_at < before)
+      .slice(0, limit);
+
+    for (const memory of expired) {
+      await this.delete(memory.user_id, memory.id);
+    }
+    return expired.length;
+  }
+
+  async matchByEmbedding(
+    userId: string,
+    embedding: number[],
+    options: MemoryMatchOptions
+  ): Promise<MemoryMatch[]> {
+    const after = options.after;
+
+    return userMemories(this.state, userId)
+      .filter(m => matchesFilters(m, options))
+      .map(m => {
+        const vector = parseEmbedding(m.embedding);
+        return {
+          ...stripEmbedding(m),
+          similarity: vector ? cosineSimilarity(embedding, vector) : 0,
+        };
+      })
+      .filter(m => m.similarity > options.threshold)
+      .filter(m =>
+        !after ||
+        m.similarity < after.similarity ||
+        (m.similarity === after.similarity && m.id > after.id)
+      )
+      .sort((a, b) => b.similarity - a.similarity || a.id.localeCompare(b.id))
+      .slice(0, options.count);
+  }
+
+  async embeddingStats(userId: string): Promise<EmbeddingModelCount[]> {
+    return countEmbeddingModels(userMemories(this.state, userId));
+  }
+
+  async projectStats(userId: string): Promise<ProjectSummary[]> {
+    return summarizeProjects(userMemories(this.state, userId));
+  }
+}
+
+class InMemoryRelationshipStore implements RelationshipStore {
+  constructor(private state: InMemoryState) {}
+
+  private summary(memoryId: string): RelatedMemorySummary | null {
+    const memory = liveMemory(this.state, memoryId);
+    return memory ? { id: memory.id, text: memory.text, created_at: memory.created_at } : null;
+  }
+
+  // Edges with an end in the trash are hidden until it is restored
+  private visible(rel: StoredRelationship): boolean {
+    return !!liveMemory(this.state, rel.memory_id) && !!liveMemory(this.state, rel.related_memory_id);
+  }
+
+  async listForMemory(
+    memoryId: string,
+    options: RelationshipListOptions = {}
+  ): Promise<RelationshipWithMemory[]> {
+    const direction = options.direction ?? 'out';
+    const oriented: RelationshipWithMemory[] = [];
+
+    for (const stored of this.state.relationships.values()) {
+      if (!this.visible(stored)) continue;
+
+      const { user_id, ...rel } = stored;
+      const symmetric = SYMMETRIC_RELATIONSHIP_TYPES.includes(rel.relationship_type);
+      if ((direction !== 'in' || symmetric) && rel.memory_id === memoryId) {
+        oriented.push({ ...rel, direction: 'out', related_memory: this.summary(rel.related_memory_id) });
+      } else if ((direction !== 'out' || symmetric) && rel.related_memory_id === memoryId) {
+        oriented.push({ ...invertRelationship(rel), direction: 'in', related_memory: this.summary(rel.memory_id) });
+      }
+    }
+
+    return oriented
+      .filter(r => !options.type || r.relationship_type === options.type)
+      .filter(r => options.minStrength === undefined || r.strength >= options.minStrength)
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, options.limit);
+  }
+
+  async listForUser(userId: string, options: UserRelationshipListOptions = {}): Promise<MemoryRelationship[]> {
+    return [...this.state.relationships.values()]
+      .filter(r => this.state.memories.get(r.memory_id)?.user_id === userId && this.visible(r))
+      .filter(r => !options.type || r.relationship_type === options.type)
+      .filter(r => !options.unresolved || !r.resolution)
+      .map(({ user_id, ...rel }) => rel);
+  }
+
+  async listForMemories(memoryIds: string[]): Promise<MemoryRelationship[]> {
+    const ids = new Set(memoryIds);
+    return [...this.state.relationships.values()]
+      .filter(r => ids.has(r.memory_id) && this.visible(r))
+      .map(({ user_id, ...rel }) => rel);
+  }
+
+  async findExistingPairs(
+    pairs: Array<{ memory_id: string; related_memory_id: string }>
+  ): Promise<Set<string>> {
+    const wanted = new Set(pairs.map(p => relationshipPairKey(p.memory_id, p.related_memory_id)));
+    const found = new Set<string>();
+
+    for (const rel of this.state.relationships.values()) {
+      const key = relationshipPairKey(rel.memory_id, rel.related_memory_id);
+      if (wanted.has(key)) found.add(key);
+    }
+
+    return found;
+  }
+
+  async findPairs(
+    pairs: Array<{ memory_id: string; related_memory_id: string }>
+  ): Promise<MemoryRelationship[]> {
+    const wanted = new Set(pairs.map(p => relationshipPairKey(p.memory_id, p.related_memory_id)));
+    return [...this.state.relationships.values()]
+      .filter(rel => wanted.has(relationshipPairKey(rel.memory_id, rel.related_memory_id)))
+      .map(({ user_id, ...rel }) => rel);
+  }
+
+  async insert(relationship: NewRelationship): Promise<MemoryRelationship> {
+    await this.insertMany([relationship]);
+    const [created] = await this.findPairs([relationship]);
+    return created;
+  }
+
+  async insertMany(relationships: NewRelationship[]): Promise<void> {
+    const existing = await this.findExistingPairs(relationships);
+
+    for (const rel of relationships) {
+      const key = relationshipPairKey(rel.memory_id, rel.related_memory_id);
+      if (existing.has(key)) {
+        throw new Error(`duplicate key value violates unique constraint (${key})`);
+      }
+      existing.add(key);
+    }
+
+    for (const rel of relationships) {
+      const id = randomUUID();
+      this.state.relationships.set(id, {
+        source: 'ai',
+        resolution: null,
+        resolved_at: null,
+        ...rel,
+        id,
+        created_at: now(),
+        updated_at: null,
+      });
+    }
+  }
+
+  async update(relationshipId: string, updates: RelationshipUpdate): Promise<MemoryRelationship | null> {
+    const existing = this.state.relationships.get(relationshipId);
+    if (!existing) return null;
+
+    const record = { ...existing, ...updates, updated_at: now() };
+    this.state.relationships.set(relationshipId, record);
+
+    const { user_id, ...rel } = record;
+    return rel;
+  }
+
+  async reassign(fromMemoryId: string, toMemoryId: string): Promise<number> {
+    // Memories the target is already linked to, in either direction
+    const linked = new Set<string>([toMemoryId, fromMemoryId]);
+    for (const rel of this.state.relationships.values()) {
+      if (rel.memory_id === toMemoryId) linked.add(rel.related_memory_id);
+      if (rel.related_memory_id === toMemoryId) linked.add(rel.memory_id);
+    }
+
+    let moved = 0;
+    for (const [id, rel] of this.state.relationships) {
+      if (rel.memory_id !== fromMemoryId && rel.related_memory_id !== fromMemoryId) continue;
+
+      const other = rel.memory_id === fromMemoryId ? rel.related_memory_id : rel.memory_id;
+      // A resolved edge between the two (a merged contradiction) stays with the source
+      if (other === toMemoryId && rel.resolution) continue;
+      if (linked.has(other)) {
+        this.state.relationships.delete(id);
+        continue;
+      }
+
+      this.state.relationships.set(id, {
+        ...rel,
+        memory_id: rel.memory_id === fromMemoryId ? toMemoryId : rel.memory_id,
+        related_memory_id: rel.related_memory_id === fromMemoryId ? toMemoryId : rel.related_memory_id,
+        updated_at: now(),
+      });
+      linked.add(other);
+      moved++;
+    }
+
+    return moved;
+  }
+
+  async getOwner(relationshipId: string): Promise<OwnedRelationship | null> {
+    const rel = this.state.relationships.get(relationshipId);
+    if (!rel || !this.visible(rel)) return null;
+
+    const memory = this.state.memories.get(rel.memory_id);
+    return { ...rel, user_id: memory?.user_id ?? rel.user_id };
+  }
+
+  async delete(relationshipId: string): Promise<void> {
+    this.state.relationships.delete(relationshipId);
+  }
+}
+
+class InMemoryFeedbackStore implements RelationshipFeedbackStore {
+  constructor(private state: InMemoryState) {}
+
+  async insert(feedback: NewRelationshipFeedback): Promise<RelationshipFeedback> {
+    const record: RelationshipFeedback = { ...feedback, id: randomUUID(), created_at: now() };
+    this.state.feedback.set(record.id, record);
+    return record;
+  }
+
+  async list(userId: string, options: FeedbackListOptions = {}): Promise<RelationshipFeedback[]> {
+    const { verdict, memoryId } = options;
+
+    return [...this.state.feedback.values()]
+      .filter(f => f.user_id === userId)
+      .filter(f => !verdict || f.verdict === verdict)
+      .filter(f => !memoryId || f.memory_id === memoryId || f.related_memory_id === memoryId)
+      .sort(newestFirst)
+      .slice(0, options.limit);
+  }
+}
+
+class InMemoryVersionStore implements MemoryVersionStore {
+  constructor(private state: InMemoryState) {}
+
+  async list(userId: string, memoryId: string, options: { limit?: number } = {}): Promise<MemoryVersion[]> {
+    return (this.state.versions.get(memoryId) ?? [])
+      .filter(v => v.user_id === userId)
+      .reverse()
+      .slice(0, options.limit);
+  }
+
+  async get(userId: string, memoryId: string, version: number): Promise<MemoryVersion | null> {
+    const found = this.state.versions.get(memoryId)?.find(v => v.version === version);
+    return found && found.user_id === userId ? found : null;
+  }
+}
+
+class InMemoryApiKeyStore implements ApiKeyStore {
+  constructor(private state: InMemoryState) {}
+
+  async findByKey(key: string): Promise<ApiKeyRecord | null> {
+    for (const apiKey of this.state.apiKeys.values()) {
+      if (apiKey.key === key) {
+        return { id: apiKey.id, user_id: apiKey.user_id, is_active: apiKey.is_active };
+      }
+    }
+    return null;
+  }
+
+  async touch(id: string): Promise<void> {
+    const apiKey = this.state.apiKeys.get(id);
+    if (apiKey) {
+      apiKey.last_used_at = now();
+    }
+  }
+
+  async create(apiKey: NewApiKey): Promise<ApiKeySummary> {
+    const record: StoredApiKey = {
+      id: randomUUID(),
+      key: apiKey.key,
+      user_id: apiKey.user_id,
+      name: apiKey.name ?? null,
+      is_active: true,
+      created_at: now(),
+      last_used_at: null,
+      revoked_at: null,
+    };
+    this.state.apiKeys.set(record.id, record);
+    return summarizeApiKey(record);
+  }
+
+  async list(userId?: string): Promise<ApiKeySummary[]> {
+    return [...this.state.apiKeys.values()]
+      .filter(apiKey => !userId || apiKey.user_id === userId)
+      .sort(newestFirst)
+      .map(summarizeApiKey);
+  }
+
+  async revoke(id: string): Promise<ApiKeySummary | null> {
+    const apiKey = this.state.apiKeys.get(id);
+    if (!apiKey) return null;
+
+    if (apiKey.is_active) {
+      apiKey.is_active = false;
+      apiKey.revoked_at = now();
+    }
+    return summarizeApiKey(apiKey);
+  }
+}
+
+/**
+ * Process-local job queue. Also used on its own as the "local" job queue
+ * driver, where queued jobs do not survive a restart.
+ */
+export class InMemoryJobStore implements JobStore {
+  constructor(private jobs: Map<string, JobRecord> = new Map()) {}
+
+  private leased(id: string, workerId: string): JobRecord | null {
+    const job = this.jobs.get(id);
+    return job && job.status === 'running' && job.locked_by === workerId ? job : null;
+  }
+
+  async enqueue(job: NewJob): Promise<JobRecord> {
+    const timestamp = now();
+    const record: JobRecord = {
+      id: randomUUID(),
+      type: job.type,
+      user_id: job.user_id ?? null,
+      payload: job.payload,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: job.max_attempts,
+      run_at: job.run_at || timestamp,
+      locked_by: null,
+      locked_until: null,
+      last_error: null,
+      result: null,
+      progress: null,
+      created_at: timestamp,
+      updated_at: timestamp,
+      completed_at: null,
+    };
+
+    this.jobs.set(record.id, record);
+    return { ...record };
+  }
+
+  async claim(workerId: string, types: string[], limit: number, leaseMs: number): Promise<JobRecord[]> {
+    const timestamp = now();
+
+    // Mirror claim_jobs(): expired leases on their final attempt are dead-lettered
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running' && job.locked_until! < timestamp && job.attempts >= job.max_attempts) {
+        Object.assign(job, {
+          status: 'dead',
+          last_error: job.last_error || 'Lease expired on final attempt',
+          locked_by: null,
+          locked_until: null,
+          updated_at: timestamp,
+        });
+      }
+    }
+
+    const due = [...this.jobs.values()]
+      .filter(job => types.includes(job.type))
+      .filter(job =>
+        (job.status === 'queued' && job.run_at <= timestamp) ||
+        (job.status === 'running' && job.locked_until! < timestamp)
+      )
+      .sort((a, b) => a.run_at.localeCompare(b.run_at) || a.created_at.localeCompare(b.created_at))
+      .slice(0, limit);
+
+    const lockedUntil = new Date(Date.now() + leaseMs).toISOString();
+    return due.map(job => {
+      Object.assign(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        locked_by: workerId,
+        locked_until: lockedUntil,
+        updated_at: timestamp,
+      });
+      return { ...job };
+    });
+  }
+
+  async complete(id: string, workerId: string, result: Record<string, any> | null): Promise<void> {
+    const job = this.leased(id, workerId);
+    if (!job) return;
+
+    const timestamp = now();
+    Object.assign(job, {
+      status: 'succeeded',
+      result,
+      locked_by: null,
+      locked_until: null,
+      updated_at: timestamp,
+      completed_at: timestamp,
+    });
+  }
+
+  async fail(id: string, workerId: string, error: string, retryAt: string | null): Promise<void> {
+    const job = this.leased(id, workerId);
+    if (!job) return;
+
+    Object.assign(job, {
+      status: retryAt ? 'queued' : 'dead',
+      run_at: retryAt || job.run_at,
+      last_error: error,
+      locked_by: null,
+      locked_until: null,
+      updated_at: now(),
+    });
+  }
+
+  async heartbeat(
+    id: string,
+    workerId: string,
+    progress: Record<string, any> | null,
+    leaseMs: number
+  ): Promise<void> {
+    const job = this.leased(id, workerId);
+    if (!job) return;
+
+    Object.assign(job, {
+      progress,
+      locked_until: new Date(Date.now() + leaseMs).toISOString(),
+      updated_at: now(),
+    });
+  }
+
+  async release(id: string, workerId: string): Promise<void> {
+    const job = this.leased(id, workerId);
+    if (!job) return;
+
+    Object.assign(job, {
+      status: 'queued',
+      attempts: Math.max(job.attempts - 1, 0),
+      locked_by: null,
+      locked_until: null,
+      updated_at: now(),
+    });
+  }
+
+  async get(userId: string, id: string): Promise<JobRecord | null> {
+    const job = this.jobs.get(id);
+    return job && job.user_id === userId ? { ...job } : null;
+  }
+
+  async list(userId: string, options: JobListOptions = {}): Promise<JobRecord[]> {
+    return [...this.jobs.values()]
+      .filter(job => job.user_id === userId)
+      .filter(job => !options.status || job.status === options.status)
+      .filter(job => !options.type || job.type === options.type)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, options.limit)
+      .map(job => ({ ...job }));
+  }
+
+  async retry(userId: string, id: string): Promise<JobRecord | null> {
+    const job = this.jobs.get(id);
+    if (!job || job.user_id !== userId || job.status !== 'dead') {
+      return null;
+    }
+
+    const timestamp = now();
+    Object.assign(job, { status: 'queued', attempts: 0, run_at: timestamp, updated_at: timestamp });
+    return { ...job };
+  }
+}
+
+/**
+ * Parse seed API keys in the form "key:user_id,key2:user_id2"
+ */
+export function parseSeedApiKeys(value: string | undefined): Array<{ key: string; userId: string }> {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.lastIndexOf(':');
+      return {
+        key: entry.substring(0, separator),
+        userId: entry.substring(separator + 1),
+      };
+    })
+    .filter(entry => entry.key && entry.userId);
+}
+
+export class InMemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory' as const;
+  readonly embeddingDimensions = null;
+  readonly state: InMemoryState = {
+    memories: new Map(),
+    relationships: new Map(),
+    feedback: new Map(),
+    versions: new Map(),
+    apiKeys: new Map(),
+    jobs: new Map(),
+  };
+
+  memories = new InMemoryMemoryStore(this.state);
+  relationships = new InMemoryRelationshipStore(this.state);
+  feedback = new InMemoryFeedbackStore(this.state);
+  versions = new InMemoryVersionStore(this.state);
+  apiKeys = new InMemoryApiKeyStore(this.state);
+  jobs = new InMemoryJobStore(this.state.jobs);
+
+  constructor(seedApiKeys: Array<{ key: string; userId: string }> = []) {
+    for (const { key, userId } of seedApiKeys) {
+      this.addApiKey(key, userId);
+    }
+  }
+
+  addApiKey(key: string, userId: string): ApiKeyRecord {
+    const record: StoredApiKey = {
+      id: randomUUID(),
+      key,
+      user_id: userId,
+      name: null,
+      is_active: true,
+      created_at: now(),
+      last_used_at: null,
+      revoked_at: null,
+    };
+    this.state.apiKeys.set(record.id, record);
+    return { id: record.id, user_id: userId, is_active: true };
+  }
+
+  async verifyAccessToken(): Promise<{ id: string; email?: string } | null> {
+    // No auth provider locally - only API keys are supported
+    return null;
+  }
+
+  async checkHealth(): Promise<StorageHealth> {
+    return { connected: true, latency: 0 };
+  }
+}
@@ -0,0 +1,1099 @@
+/**
+ * Supabase Storage Backend
+ *
+ * Production storage on Supabase PostgreSQL. Every query runs through
+ * executeQuery so it is protected by the database circuit breaker.
+ */
+
+import { supabase, executeQuery, getDatabaseHealth } from '../config/supabase.js';
+import { MemoryRelationship, RelationshipType } from '../types/recallbricks.js';
+import { chunk } from '../utils/batch.js';
+import {
+  ApiKeyRecord,
+  ApiKeyStore,
+  ApiKeySummary,
+  DetectionStatusUpdate,
+  EmbeddingColumns,
+  EmbeddingModel,
+  EmbeddingModelCount,
+  ProjectSummary,
+  FeedbackListOptions,
+  JobListOptions,
+  JobRecord,
+  JobStore,
+  MemoryFilters,
+  MemoryListOptions,
+  MemoryMatch,
+  MemoryMatchOptions,
+  MemoryPage,
+  MemoryPageOptions,
+  MemoryRecord,
+  MemorySelection,
+  MemoryStore,
+  BulkMemoryChanges,
+  MemoryUpdate,
+  MemoryVersion,
+  MemoryVersionStore,
+  NewJob,
+  NewMemory,
+  NewApiKey,
+  NewRelationship,
+  NewRelationshipFeedback,
+  OwnedRelationship,
+  RelationshipDirection,
+  RelationshipFeedback,
+  RelationshipFeedbackStore,
+  RelationshipListOptions,
+  RelationshipStore,
+  RelationshipUpdate,
+  RelationshipWithMemory,
+  StaleEmbedding,
+  StaleEmbeddingOptions,
+  StorageBackend,
+  StorageHealth,
+  TrashListOptions,
+  UserRelationshipListOptions,
+  MEMORY_SORT_COLUMNS,
+  INVERSE_RELATIONSHIP_TYPES,
+  SYMMETRIC_RELATIONSHIP_TYPES,
+  countEmbeddingModels,
+  summarizeProjects,
+  summarizeApiKey,
+  invertRelationship,
+  relationshipPairKey,
+} from './types.js';
+
+/**
+ * Run a Supabase query builder and unwrap its { data, error } result
+ */
+async function run<T>(
+  operation: string,
+  table: string,
+  query: () => PromiseLike<{ data: any; error: any }>
+): Promise<T> {
+  return executeQuery(operation, table, async () => {
+    const { data, error } = await query();
+    if (error) throw error;
+    return data as T;
+  });
+}
+
+function applyFilters<Q extends { contains: any; eq: any; gte: any; lte: any }>(
+  query: Q,
+  filters: MemoryFilters
+): Q {
+  let filtered = query;
+
+  if (filters.tags && filters.tags.length > 0) {
+    filtered = filtered.contains('tags', filters.tags);
+  }
+
+  if (filters.source) {
+    filtered = filtered.eq('source', filters.source);
+  }
+
+  if (filters.projectId) {
+    filtered = filtered.eq('project_id', filters.projectId);
+  }
+
+  if (filters.createdAfter) {
+    filtered = filtered.gte('created_at', filters.createdAfter);
+  }
+
+  if (filters.createdBefore) {
+    filtered = filtered.lte('created_at', filters.createdBefore);
+  }
+
+  return filtered;
+}
+
+/**
+ * PostgREST filter value, quoted so timestamps and other reserved
+ * characters survive inside or()
+ */
+function filterValue(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/"/g, '\\"')}"`;
+}
+
+function toVector(embedding: number[] | null | undefined): string | null | undefined {
+  if (embedding === undefined) return undefined;
+  return embedding ? `[${embedding.join(',')}]` : null;
+}
+
+// Rows per keyset page, within PostgREST's default row limit
+const SELECT_PAGE_SIZE = 1000;
+
+class SupabaseMemoryStore implements MemoryStore {
+  async insert(memory: NewMemory): Promise<MemoryRecord> {
+    return run<MemoryRecord>('insert', 'memories', () =>
+      supabase
+        .from('memories')
+        .insert({ ...memory, embedding: toVector(memory.embedding) ?? null })
+        .select()
+        .single()
+    );
+  }
+
+  async insertMany(memories: NewMemory[]): Promise<MemoryRecord[]> {
+    if (memories.length === 0) return [];
+
+    const data = await run<MemoryRecord[] | null>('insert', 'memories', () =>
+      supabase
+        .from('memories')
+        .insert(memories.map(memory => ({ ...memory, embedding: toVector(memory.embedding) ?? null })))
+        .select()
+    );
+    return data || [];
+  }
+
+  async getById(userId: string, id: string): Promise<MemoryRecord | null> {
+    return run<MemoryRecord | null>('select', 'memories', () =>
+      supabase
+        .from('memories')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .maybeSingle()
+    );
+  }
+
+  async getMany(userId: string, ids: string[]): Promise<MemoryRecord[]> {
+    const memories: MemoryRecord[] = [];
+
+    for (const batch of chunk(ids, 200)) {
+      const data = await run<MemoryRecord[] | null>('select', 'memories', () =>
+        supabase
+          .from('memories')
+          .select('*')
+          .eq('user_id', userId)
+          .is('deleted_at', null)
+          .in('id', batch)
+      );
+      memories.push(...(data || []));
+    }
+
+    return memories;
+  }
+
+  async findByTextHash(userId: string, projectId: string, hash: string): Promise<MemoryRecord | null> {
+    return run<MemoryRecord | null>('select', 'memories', () =>
+      supabase
+        .from('memories')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('project_id', projectId)
+        .eq('text_hash', hash)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+    );
+  }
+
+  async findOwners(ids: string[]): Promise<Map<string, string>> {
+    const owners = new Map<string, string>();
+
+    // Keep the id list well under PostgREST URL limits
+    for (const batch of chunk(ids, 200)) {
+      const data = await run<Array<{ id: string; user_id: string }> | null>('select', 'memories', () =>
+        supabase
+          .from('memories')
+          .select('id, user_id')
+          .in('id', batch)
+      );
+      for (const row of data || []) {
+        owners.set(row.id, row.user_id);
+      }
+    }
+
+    return owners;
+  }
+
+  async list(userId: string, options: MemoryListOptions = {}): Promise<MemoryRecord[]> {
+    let query = supabase
+      .from('memories')
+      .select('*')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false });
+
+    if (options.query) {
+      query = query.textSearch('text_search', options.query, {
+        type: 'websearch',
+        config: 'english',
+      });
+    }
+
+    query = applyFilters(query, options);
+
+    if (options.excludeId) {
+      query = query.neq('id', options.excludeId);
+    }
+
+    if (options.offset !== undefined && options.limit !== undefined) {
+      query = query.range(options.offset, options.offset + options.limit - 1);
+    } else if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const data = await run<MemoryRecord[] | null>('select', 'memories', () => query);
+    return data || [];
+  }
+
+  async listPage(userId: string, options: MemoryPageOptions): Promise<MemoryPage> {
+    const column = MEMORY_SORT_COLUMNS[options.sort || 'created'];
+    const ascending = options.order === 'asc';
+
+    let query = applyFilters(
+      supabase.from('memories').select('*').eq('user_id', userId).is('deleted_at', null),
+      options
+    );
+
+    if (options.after) {
+      const op = ascending ? 'gt' : 'lt';
+      const value = filterValue(options.after.value);
+      const id = filterValue(options.after.id);
+      query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${id})`);
+    }
+
+    // Fetch one extra row to detect the next page
+    const pageQuery = query
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(options.limit + 1);
+
+    const countQuery = options.count
+      ? applyFilters(
+          supabase
+            .from('memories')
+            .select('id', { count: options.count, head: true })
+            .eq('user_id', userId)
+            .is('deleted_at', null),
+          options
+        )
+      : null;
+
+    const [rows, total] = await Promise.all([
+      run<MemoryRecord[] | null>('select', 'memories', () => pageQuery),
+      countQuery
+        ? executeQuery('count', 'memories', async () => {
+            const { count, error } = await countQuery;
+            if (error) throw error;
+            return count ?? 0;
+          })
+        : Promise.resolve(null),
+    ]);
+
+    const memories = rows || [];
+    return {
+      memories: memories.slice(0, options.limit),
+      hasMore: memories.length > options.limit,
+      total,
+    };
+  }
+
+  async update(userId: string, id: string, updates: MemoryUpdate): Promise<MemoryRecord | null> {
+    const { embedding, ...rest } = updates;
+    const row: Record<string, any> = { ...rest };
+    if (embedding !== undefined) {
+      row.embedding = toVector(embedding);
+    }
+
+    return run<MemoryRecord | null>('update', 'memories', () =>
+      supabase
+        .from('memories')
+        .update(row)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .select()
+        .maybeSingle()
+    );
+  }
+
+  async selectIds(userId: string, selection: MemorySelection): Promise<string[]> {
+    const ids: string[] = [];
+
+    // Keep explicit id lists well under PostgREST URL limits
+    for (const batch of selection.ids ? chunk(selection.ids, 200) : [null]) {
+      let last: string | null = null;
+
+      // Keyset pages of ids, within PostgREST's default row limit
+      for (;;) {
+        let query = applyFilters(
+          supabase.from('memories').select('id').eq('user_id', userId).is('deleted_at', null),
+          selection
+        );
+
+        if (selection.query) {
+          query = query.textSearch('text_search', selection.query, {
+            type: 'websearch',
+            config: 'english',
+          });
+        }
+
+        if (batch) {
+          query = query.in('id', batch);
+        }
+
+        if (last) {
+          query = query.gt('id', last);
+        }
+
+        const page = query.order('id', { ascending: true }).limit(SELECT_PAGE_SIZE);
+        const rows = (await run<Array<{ id: string }> | null>('select', 'memories', () => page)) || [];
+
+        ids.push(...rows.map(row => row.id));
+        if (rows.length < SELECT_PAGE_SIZE) break;
+        last = rows[rows.length - 1].id;
+      }
+    }
+
+    return ids;
+  }
+
+  async bulkUpdate(userId: string, ids: string[], changes: BulkMemoryChanges): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    // bulk_update_memories (migrations/014) updates every row in one statement
+    const updated = await run<number | null>('rpc', 'bulk_update_memories', () =>
+      supabase.rpc('bulk_update_memories', {
+        filter_user_id: userId,
+        memory_ids: ids,
+        add_tags: changes.addTags ?? null,
+        remove_tags: changes.removeTags ?? null,
+        new_project_id: changes.projectId ?? null,
+        set_metadata: changes.metadata ?? null,
+      })
+    );
+    return updated ?? 0;
+  }
+
+  async trash(userId: string, id: string): Promise<boolean> {
+    // deleted_at is not covered by memories_touch_updated_at: updated_at is kept
+    const data = await run<{ id: string } | null>('update', 'memories', () =>
+      supabase
+        .from('memories')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .select('id')
+        .maybeSingle()
+    );
+    return !!data;
+  }
+
+  async trashMany(userId: string, ids: string[]): Promise<number> {
+    let trashed = 0;
+    const deletedAt = new Date().toISOString();
+
+    for (const batch of chunk(ids, 200)) {
+      const data = await run<Array<{ id: string }> | null>('update', 'memories', () =>
+        supabase
+          .from('memories')
+          .update({ deleted_at: deletedAt })
+          .eq('user_id', userId)
+          .in('id', batch)
+          .is('deleted_at', null)
+          .select('id')
+      );
+      trashed += (data || []).length;
+    }
+
+    return trashed;
+  }
+
+  async restore(userId: string, id: string): Promise<MemoryRecord | null> {
+    return run<MemoryRecord | null>('update', 'memories', () =>
+      supabase
+        .from('memories')
+        .update({ deleted_at: null })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .not('deleted_at', 'is', null)
+        .select()
+        .maybeSingle()
+    );
+  }
+
+  async listTrash(userId: string, options: TrashListOptions): Promise<MemoryPage> {
+    let query = supabase
+      .from('memories')
+      .select('*')
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null);
+
+    if (options.after) {
+      const value = filterValue(options.after.value);
+      const id = filterValue(options.after.id);
+      query = query.or(`deleted_at.lt.${value},and(deleted_at.eq.${value},id.lt.${id})`);
+    }
+
+    const rows = await run<MemoryRecord[] | null>('select', 'memories', () =>
+      query
+        .order('deleted_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(options.limit + 1)
+    );
+
+    const memories = rows || [];
+    return {
+      memories: memories.slice(0, options.limit),
+      hasMore: memories.length > options.limit,
+      total: null,
+    };
+  }
+
+  async setDetectionStatus(userId: string, id: string, status: DetectionStatusUpdate): Promise<void> {
+    await run('update', 'memories', () =>
+      supabase
+        .from('memories')
+        .update(status)
+        .eq('id', id)
+        .eq('user_id', userId)
+    );
+  }
+
+  async listStaleEmbeddings(current: EmbeddingModel, options: StaleEmbeddingOptions): Promise<StaleEmbedding[]> {
+    let query = supabase
+      .from('memories')
+      .select('id, user_id, text')
+      .or(
+        'embedding.is.null,embedding_provider.is.null,embedding_model.is.null,embedding_dim.is.null,' +
+        `embedding_provider.neq.${filterValue(current.provider)},` +
+        `embedding_model.neq.${filterValue(current.model)},` +
+        `embedding_dim.neq.${filterValue(current.dimensions)}`
+      );
+
+    if (options.userId) query = query.eq('user_id', options.userId);
+    if (options.after) query = query.gt('id', options.after);
+
+    const data = await run<StaleEmbedding[] | null>('select', 'memories', () =>
+      query.order('id', { ascending: true }).limit(options.limit)
+    );
+    return data || [];
+  }
+
+  async setEmbedding(userId: string, id: string, embedding: EmbeddingColumns): Promise<void> {
+    // Embedding columns are not watched by the updated_at and version triggers
+    await run('update', 'memories', () =>
+      supabase
+        .from('memories')
+        .update({ ...embedding, embedding: toVector(embedding.embedding) })
+        .eq('id', id)
+        .eq('user_id', userId)
+    );
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const data = await run<Array<{ id: string }> | null>('delete', 'memories', () =>
+      supabase
+        .from('memories')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id')
+    );
+    return (data || []).length > 0;
+  }
+
+  async purgeTrash(before: string, limit: number): Promise<number> {
+    const expired = await run<Array<{ id: string }> | null>('select', 'memories', () =>
+      supabase
+        .from('memories')
+        .select('id')
+        .lt('deleted_at', before)
+        .order('deleted_at', { ascending: true })
+        .limit(limit)
+    );
+
+    const ids = (expired || []).map(row => row.id);
+    if (ids.length === 0) return 0;
+
+    // Re-check deleted_at in case a memory was restored in between
+    const deleted = await run<Array<{ id: string }> | null>('delete', 'memories', () =>
+      supabase
+        .from('memories')
+        .delete()
+        .in('id', ids)
+        .lt('deleted_at', before)
+        .select('id')
+    );
+    return (deleted || []).length;
+  }
+
+  async matchByEmbedding(
+    userId: string,
+    embedding: number[],
+    options: MemoryMatchOptions
+  ): Promise<MemoryMatch[]> {
+    // match_memories_filtered (migrations/002) serves unfiltered searches
+    // too: unlike the original match_memories RPC it excludes the trash
+    // (migrations/013)
+    const data = await run<MemoryMatch[] | null>('rpc', 'match_memories_filtered', () =>
+      supabase.rpc('match_memories_filtered', {
+        query_embedding: JSON.stringify(embedding),
+        match_threshold: options.threshold,
+        match_count: options.count,
+        filter_user_id: userId,
+        filter_project_id: options.projectId ?? null,
+        filter_source: options.source ?? null,
+        filter_tags: options.tags?.length ? options.tags : null,
+        filter_created_after: options.createdAfter ?? null,
+        filter_created_before: options.createdBefore ?? null,
+        after_similarity: options.after?.similarity ?? null,
+        after_id: options.after?.id ?? null,
+      })
+    );
+    return data || [];
+  }
+
+  async embeddingStats(userId: string): Promise<EmbeddingModelCount[]> {
+    const data = await run<MemoryRecord[] | null>('select', 'memories', () =>
+      supabase
+        .from('memories')
+        .select('embedding_provider, embedding_model, embedding_dim')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+    );
+    return countEmbeddingModels(data || []);
+  }
+
+  async projectStats(userId: string): Promise<ProjectSummary[]> {
+    const data = await run<Array<Pick<MemoryRecord, 'project_id' | 'updated_at'>> | null>('select', 'memories', () =>
+      supabase
+        .from('memories')
+        .select('project_id, updated_at')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+    );
+    return summarizeProjects(data || []);
+  }
+}
+
+const RELATIONSHIP_FIELDS =
+  'id, memory_id, related_memory_id, relationship_type, strength, explanation, source, resolution, resolved_at, ' +
+  'created_at, updated_at';
+
+// Outgoing edges embed their target, incoming edges their source. The inner
+// join lets edges to memories in the trash be filtered out.
+const RELATIONSHIP_COLUMNS = {
+  out: `${RELATIONSHIP_FIELDS}, related_memory:memories!memory_relationships_related_memory_id_fkey!inner(id, text, created_at)`,
+  in: `${RELATIONSHIP_FIELDS}, related_memory:memories!memory_relationships_memory_id_fkey!inner(id, text, created_at)`,
+};
+
+class SupabaseRelationshipStore implements RelationshipStore {
+  // listForUser pages through the user's memory ids
+  constructor(private readonly memories: SupabaseMemoryStore) {}
+
+  private async listDirected(
+    memoryId: string,
+    direction: RelationshipDirection,
+    options: RelationshipListOptions,
+    symmetricOnly = false
+  ): Promise<RelationshipWithMemory[]> {
+    let query = supabase
+      .from('memory_relationships')
+      .select(RELATIONSHIP_COLUMNS[direction])
+      .eq(direction === 'out' ? 'memory_id' : 'related_memory_id', memoryId)
+      .is('related_memory.deleted_at', null)
+      .order('strength', { ascending: false });
+
+    if (options.type) {
+      // Incoming edges are stored with the inverse type
+      const type = direction === 'out'
+        ? options.type
+        : INVERSE_RELATIONSHIP_TYPES[options.type as RelationshipType] ?? options.type;
+      query = query.eq('relationship_type', type);
+    }
+
+    if (symmetricOnly) {
+      query = query.in('relationship_type', SYMMETRIC_RELATIONSHIP_TYPES);
+    }
+
+    if (options.minStrength !== undefined) {
+      query = query.gte('strength', options.minStrength);
+    }
+
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const data = await run<Omit<RelationshipWithMemory, 'direction'>[] | null>(
+      'select',
+      'memory_relationships',
+      () => query
+    );
+
+    return (data || []).map(rel => direction === 'out'
+      ? { ...rel, direction }
+      : { ...invertRelationship(rel), direction });
+  }
+
+  async listForMemory(
+    memoryId: string,
+    options: RelationshipListOptions = {}
+  ): Promise<RelationshipWithMemory[]> {
+    const direction = options.direction ?? 'out';
+
+    // The other direction is still read for symmetric types
+    const [outgoing, incoming] = await Promise.all([
+      this.listDirected(memoryId, 'out', options, direction === 'in'),
+      this.listDirected(memoryId, 'in', options, direction === 'out'),
+    ]);
+
+    return [...outgoing, ...incoming]
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, options.limit);
+  }
+
+  async listForUser(userId: string, options: UserRelationshipListOptions = {}): Promise<MemoryRelationship[]> {
+    const memoryIds = await this.memories.selectIds(userId, {});
+    const live = new Set(memoryIds);
+    const relationships: MemoryRelationship[] = [];
+
+    // Chunked to stay under PostgREST URL limits, and paged by id within a chunk
+    for (const batch of chunk(memoryIds, 200)) {
+      let last: string | null = null;
+
+      for (;;) {
+        let query = supabase
+          .from('memory_relationships')
+          .select('*')
+          .in('memory_id', batch);
+
+        if (options.type) {
+          query = query.eq('relationship_type', options.type);
+        }
+
+        if (options.unresolved) {
+          query = query.is('resolution', null);
+        }
+
+        if (last) {
+          query = query.gt('id', last);
+        }
+
+        const page = query.order('id', { ascending: true }).limit(SELECT_PAGE_SIZE);
+        const rows = (await run<MemoryRelationship[] | null>('select', 'memory_relationships', () => page)) || [];
+
+        // Hide edges to memories in the trash
+        relationships.push(...rows.filter(rel => live.has(rel.related_memory_id)));
+        if (rows.length < SELECT_PAGE_SIZE) break;
+        last = rows[rows.length - 1].id;
+      }
+    }
+
+    return relationships;
+  }
+
+  async listForMemories(memoryIds: string[]): Promise<MemoryRelationship[]> {
+    const relationships: MemoryRelationship[] = [];
+
+    for (const batch of chunk(memoryIds, 200)) {
+      const data = await run<Array<MemoryRelationship & { related_memory: unknown }> | null>(
+        'select',
+        'memory_relationships',
+        () =>
+          supabase
+            .from('memory_relationships')
+            .select('*, related_memory:memories!memory_relationships_related_memory_id_fkey!inner(id)')
+            .in('memory_id', batch)
+            .is('related_memory.deleted_at', null)
+      );
+      relationships.push(...(data || []).map(({ related_memory, ...rel }) => rel));
+    }
+
+    return relationships;
+  }
+
+  async findExistingPairs(
+    pairs: Array<{ memory_id: string; related_memory_id: string }>
+  ): Promise<Set<string>> {
+    if (pairs.length === 0) {
+      return new Set();
+    }
+
+    const data = await run<Array<{ memory_id: string; related_memory_id: string }> | null>(
+      'select',
+      'memory_relationships',
+      () =>
+        supabase
+          .from('memory_relationships')
+          .select('memory_id, related_memory_id')
+          .or(
+            pairs
+              .map(p => `and(memory_id.eq.${p.memory_id},related_memory_id.eq.${p.related_memory_id})`)
+              .join(',')
+          )
+    );
+
+    return new Set((data || []).map(e => relationshipPairKey(e.memory_id, e.related_memory_id)));
+  }
+
+  async findPairs(
+    pairs: Array<{ memory_id: string; related_memory_id: string }>
+  ): Promise<MemoryRelationship[]> {
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    const data = await run<MemoryRelationship[] | null>('select', 'memory_relationships', () =>
+      supabase
+        .from('memory_relationships')
+        .select(RELATIONSHIP_FIELDS)
+        .or(
+          pairs
+            .map(p => `and(memory_id.eq.${p.memory_id},related_memory_id.eq.${p.related_memory_id})`)
+            .join(',')
+        )
+    );
+    return data || [];
+  }
+
+  async insert(relationship: NewRelationship): Promise<MemoryRelationship> {
+    return run<MemoryRelationship>('insert', 'memory_relationships', () =>
+      supabase.from('memory_relationships').insert(relationship).select(RELATIONSHIP_FIELDS).single()
+    );
+  }
+
+  async insertMany(relationships: NewRelationship[]): Promise<void> {
+    if (relationships.length === 0) return;
+
+    await run('insert', 'memory_relationships', () =>
+      supabase.from('memory_relationships').insert(relationships)
+    );
+  }
+
+  async getOwner(relationshipId: string): Promise<OwnedRelationship | null> {
+    const data = await run<any>('select', 'memory_relationships', () =>
+      supabase
+        .from('memory_relationships')
+        .select(
+          `${RELATIONSHIP_FIELDS}, memories!memory_relationships_memory_id_fkey(user_id, deleted_at), ` +
+          'related:memories!memory_relationships_related_memory_id_fkey(deleted_at)'
+        )
+        .eq('id', relationshipId)
+        .maybeSingle()
+    );
+
+    // Hidden while either memory is in the trash
+    if (!data || data.memories?.deleted_at || data.related?.deleted_at) return null;
+
+    const { memories, related, ...rel } = data;
+    return { ...rel, user_id: memories?.user_id };
+  }
+
+  async update(relationshipId: string, updates: RelationshipUpdate): Promise<MemoryRelationship | null> {
+    return run<MemoryRelationship | null>('update', 'memory_relationships', () =>
+      supabase
+        .from('memory_relationships')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', relationshipId)
+        .select(RELATIONSHIP_FIELDS)
+        .maybeSingle()
+    );
+  }
+
+  async reassign(fromMemoryId: string, toMemoryId: string): Promise<number> {
+    // reassign_memory_relationships (migrations/011, 016) moves the edges in one transaction
+    const moved = await run<number | null>('rpc', 'reassign_memory_relationships', () =>
+      supabase.rpc('reassign_memory_relationships', { from_id: fromMemoryId, to_id: toMemoryId })
+    );
+    return moved ?? 0;
+  }
+
+  async delete(relationshipId: string): Promise<void> {
+    await run('delete', 'memory_relationships', () =>
+      supabase.from('memory_relationships').delete().eq('id', relationshipId)
+    );
+  }
+}
+
+class SupabaseFeedbackStore implements RelationshipFeedbackStore {
+  async insert(feedback: NewRelationshipFeedback): Promise<RelationshipFeedback> {
+    return run<RelationshipFeedback>('insert', 'relationship_feedback', () =>
+      supabase.from('relationship_feedback').insert(feedback).select().single()
+    );
+  }
+
+  async list(userId: string, options: FeedbackListOptions = {}): Promise<RelationshipFeedback[]> {
+    let query = supabase
+      .from('relationship_feedback')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (options.verdict) {
+      query = query.eq('verdict', options.verdict);
+    }
+
+    if (options.memoryId) {
+      query = query.or(`memory_id.eq.${options.memoryId},related_memory_id.eq.${options.memoryId}`);
+    }
+
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const data = await run<RelationshipFeedback[] | null>('select', 'relationship_feedback', () => query);
+    return data || [];
+  }
+}
+
+class SupabaseVersionStore implements MemoryVersionStore {
+  async list(userId: string, memoryId: string, options: { limit?: number } = {}): Promise<MemoryVersion[]> {
+    let query = supabase
+      .from('memory_versions')
+      .select('*')
+      .eq('memory_id', memoryId)
+      .eq('user_id', userId)
+      .order('version', { ascending: false });
+
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const data = await run<MemoryVersion[] | null>('select', 'memory_versions', () => query);
+    return data || [];
+  }
+
+  async get(userId: string, memoryId: string, version: number): Promise<MemoryVersion | null> {
+    return run<MemoryVersion | null>('select', 'memory_versions', () =>
+      supabase
+        .from('memory_versions')
+        .select('*')
+        .eq('memory_id', memoryId)
+        .eq('user_id', userId)
+        .eq('version', version)
+        .maybeSingle()
+    );
+  }
+}
+
+// name, created_at and revoked_at need migrations/015_api_key_management.sql
+const API_KEY_COLUMNS = 'id, key, user_id, name, is_active, created_at, last_used_at, revoked_at';
+
+type StoredApiKeyRow = Omit<ApiKeySummary, 'key_prefix'> & { key: string };
+
+class SupabaseApiKeyStore implements ApiKeyStore {
+  async findByKey(key: string): Promise<ApiKeyRecord | null> {
+    return run<ApiKeyRecord | null>('select', 'api_keys', () =>
+      supabase
+        .from('api_keys')
+        .select('id, user_id, is_active')
+        .eq('key', key)
+        .maybeSingle()
+    );
+  }
+
+  async touch(id: string): Promise<void> {
+    await run('update', 'api_keys', () =>
+      supabase
+        .from('api_keys')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', id)
+    );
+  }
+
+  async create(apiKey: NewApiKey): Promise<ApiKeySummary> {
+    const row = await run<StoredApiKeyRow>('insert', 'api_keys', () =>
+      supabase
+        .from('api_keys')
+        .insert({ key: apiKey.key, user_id: apiKey.user_id, name: apiKey.name ?? null, is_active: true })
+        .select(API_KEY_COLUMNS)
+        .single()
+    );
+    return summarizeApiKey(row);
+  }
+
+  async list(userId?: string): Promise<ApiKeySummary[]> {
+    let query = supabase.from('api_keys').select(API_KEY_COLUMNS);
+    if (userId) query = query.eq('user_id', userId);
+
+    const data = await run<StoredApiKeyRow[] | null>('select', 'api_keys', () =>
+      query.order('created_at', { ascending: false }).order('id', { ascending: false })
+    );
+    return (data || []).map(summarizeApiKey);
+  }
+
+  async revoke(id: string): Promise<ApiKeySummary | null> {
+    // Keep the first revocation time when revoking twice
+    await run('update', 'api_keys', () =>
+      supabase
+        .from('api_keys')
+        .update({ is_active: false, revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('is_active', true)
+    );
+
+    const row = await run<StoredApiKeyRow | null>('select', 'api_keys', () =>
+      supabase.from('api_keys').select(API_KEY_COLUMNS).eq('id', id).maybeSingle()
+    );
+    return row ? summarizeApiKey(row) : null;
+  }
+}
+
+class SupabaseJobStore implements JobStore {
+  async enqueue(job: NewJob): Promise<JobRecord> {
+    return run<JobRecord>('insert', 'jobs', () =>
+      supabase.from('jobs').insert(job).select().single()
+    );
+  }
+
+  async claim(workerId: string, types: string[], limit: number, leaseMs: number): Promise<JobRecord[]> {
+    // claim_jobs (migrations/004) leases rows with FOR UPDATE SKIP LOCKED
+    const data = await run<JobRecord[] | null>('rpc', 'claim_jobs', () =>
+      supabase.rpc('claim_jobs', {
+        worker_id: workerId,
+        job_types: types,
+        batch_size: limit,
+        lease_ms: leaseMs,
+      })
+    );
+    return data || [];
+  }
+
+  async complete(id: string, workerId: string, result: Record<string, any> | null): Promise<void> {
+    const timestamp = new Date().toISOString();
+    await run('update', 'jobs', () =>
+      supabase
+        .from('jobs')
+        .update({
+          status: 'succeeded',
+          result,
+          locked_by: null,
+          locked_until: null,
+          updated_at: timestamp,
+          completed_at: timestamp,
+        })
+        .eq('id', id)
+        .eq('status', 'running')
+        .eq('locked_by', workerId)
+    );
+  }
+
+  async fail(id: string, workerId: string, error: string, retryAt: string | null): Promise<void> {
+    const row: Record<string, any> = {
+      status: retryAt ? 'queued' : 'dead',
+      last_error: error,
+      locked_by: null,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    };
+    if (retryAt) {
+      row.run_at = retryAt;
+    }
+
+    await run('update', 'jobs', () =>
+      supabase
+        .from('jobs')
+        .update(row)
+        .eq('id', id)
+        .eq('status', 'running')
+        .eq('locked_by', workerId)
+    );
+  }
+
+  async heartbeat(
+    id: string,
+    workerId: string,
+    progress: Record<string, any> | null,
+    leaseMs: number
+  ): Promise<void> {
+    await run('update', 'jobs', () =>
+      supabase
+        .from('jobs')
+        .update({
+          progress,
+          locked_until: new Date(Date.now() + leaseMs).toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('status', 'running')
+        .eq('locked_by', workerId)
+    );
+  }
+
+  async release(id: string, workerId: string): Promise<void> {
+    await run('rpc', 'release_job', () =>
+      supabase.rpc('release_job', { job_id: id, worker_id: workerId })
+    );
+  }
+
+  async get(userId: string, id: string): Promise<JobRecord | null> {
+    return run<JobRecord | null>('select', 'jobs', () =>
+      supabase
+        .from('jobs')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', userId)
+        .maybeSingle()
+    );
+  }
+
+  async list(userId: string, options: JobListOptions = {}): Promise<JobRecord[]> {
+    let query = supabase
+      .from('jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    if (options.type) {
+      query = query.eq('type', options.type);
+    }
+
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const data = await run<JobRecord[] | null>('select', 'jobs', () => query);
+    return data || [];
+  }
+
+  async retry(userId: string, id: string): Promise<JobRecord | null> {
+    const timestamp = new Date().toISOString();
+    return run<JobRecord | null>('update', 'jobs', () =>
+      supabase
+        .from('jobs')
+        .update({ status: 'queued', attempts: 0, run_at: timestamp, updated_at: timestamp })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .eq('status', 'dead')
+        .select()
+        .maybeSingle()
+    );
+  }
+}
+
+export class SupabaseStorageBackend implements StorageBackend {
+  readonly name = 'supabase' as const;
+  // memories.embedding and the match_memories_filtered RPC are vector(1536)
+  readonly embeddingDimensions = 1536;
+  memories = new SupabaseMemoryStore();
+  relationships = new SupabaseRelationshipStore(this.memories);
+  feedback = new SupabaseFeedbackStore();
+  versions = new SupabaseVersionStore();
+  apiKeys = new SupabaseApiKeyStore();
+  jobs = new SupabaseJobStore();
+
+  async verifyAccessToken(token: string): Promise<{ id: string; email?: string } | null> {
+    const { data: { user }, error } = await supabase.auth.getUser(token);
+
+    if (error || !user) {
+      return null;
+    }
+
+    return { id: user.id, email: user.email };
+  }
+
+  async checkHealth(): Promise<StorageHealth> {
+    return getDatabaseHealth();
+  }
+}
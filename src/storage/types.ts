@@ -0,0 +1,635 @@
+/**
+ * Storage Backend Types
+ *
+ * Repository interfaces shared by every storage implementation. Routes and
+ * services depend on these interfaces only, never on a concrete client.
+ */
+
+import {
+  ContradictionResolution,
+  Memory,
+  MemoryRelationship,
+  RelationshipSource,
+  RelationshipType,
+} from '../types/recallbricks.js';
+
+export type StorageBackendName = 'supabase' | 'memory';
+
+/**
+ * Memory row as persisted, including the embedding vector
+ */
+export interface MemoryRecord extends Memory {
+  embedding?: number[] | string | null;
+}
+
+export interface NewMemory {
+  id?: string;
+  user_id: string;
+  text: string;
+  source: string;
+  project_id: string;
+  tags: string[];
+  metadata?: Record<string, any> | null;
+  embedding?: number[] | null;
+  embedding_provider?: string | null;
+  embedding_model?: string | null;
+  embedding_dim?: number | null;
+  text_hash?: string | null;
+  // Preserved when restoring from an export; defaults to now
+  created_at?: string;
+}
+
+export type DetectionStatusUpdate = Pick<Memory, 'detection_status' | 'detection_error' | 'detected_at'>;
+
+export type MemoryUpdate = Partial<Omit<NewMemory, 'id' | 'user_id' | 'created_at'>>;
+
+export type EmbeddingColumns = Required<Pick<NewMemory, 'embedding' | 'embedding_provider' | 'embedding_model' | 'embedding_dim'>>;
+
+/**
+ * Attribute filters shared by listing, full-text and vector search
+ */
+export interface MemoryFilters {
+  tags?: string[];
+  source?: string;
+  projectId?: string;
+  // ISO 8601 bounds on created_at (inclusive)
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface MemoryListOptions extends MemoryFilters {
+  query?: string;
+  excludeId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type MemorySortField = 'created' | 'updated' | 'strength';
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Column each sort field orders by; id breaks ties in the same direction
+ */
+export const MEMORY_SORT_COLUMNS = {
+  created: 'created_at',
+  updated: 'updated_at',
+  strength: 'relationship_strength',
+} as const satisfies Record<MemorySortField, keyof Memory>;
+
+/**
+ * Keyset position in a sorted listing: the sort value and id of the last row
+ */
+export interface ListCursor {
+  value: string | number;
+  id: string;
+}
+
+export type TotalCountMode = 'exact' | 'estimated';
+
+export interface MemoryPageOptions extends MemoryFilters {
+  sort?: MemorySortField;
+  order?: SortOrder;
+  limit: number;
+  after?: ListCursor;
+  // Omit to skip counting
+  count?: TotalCountMode;
+}
+
+export interface MemoryPage {
+  memories: MemoryRecord[];
+  hasMore: boolean;
+  // Total matching the filters (ignoring the cursor), null when not requested
+  total: number | null;
+}
+
+/**
+ * Keyset position in a similarity-ordered result (similarity desc, id asc)
+ */
+export interface MatchCursor {
+  similarity: number;
+  id: string;
+}
+
+export interface MemoryMatchOptions extends MemoryFilters {
+  threshold: number;
+  count: number;
+  after?: MatchCursor;
+}
+
+export interface MemoryMatch extends Memory {
+  similarity: number;
+}
+
+/**
+ * Number of memories embedded by each provider/model/dimension
+ * (all null for memories stored without an embedding)
+ */
+export interface EmbeddingModelCount {
+  provider: string | null;
+  model: string | null;
+  dimensions: number | null;
+  count: number;
+}
+
+/**
+ * The provider, model and dimension of the embeddings currently generated
+ */
+export interface EmbeddingModel {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+export interface StaleEmbeddingOptions {
+  // Only this user's memories; every user's when omitted
+  userId?: string;
+  // Keyset: only memories with a greater id
+  after?: string;
+  limit: number;
+}
+
+/**
+ * A memory without an embedding from the current model
+ */
+export type StaleEmbedding = Pick<MemoryRecord, 'id' | 'user_id' | 'text'>;
+
+/**
+ * A project the user has memories in
+ */
+export interface ProjectSummary {
+  project_id: string;
+  memory_count: number;
+  // Most recent updated_at of its memories
+  last_updated_at: string;
+}
+
+/**
+ * Memories chosen by id and/or attributes, as for a bulk operation
+ */
+export interface MemorySelection extends MemoryFilters {
+  ids?: string[];
+  // Full-text query, as for list()
+  query?: string;
+}
+
+/**
+ * Changes applied to every memory of a bulk update
+ */
+export interface BulkMemoryChanges {
+  addTags?: string[];
+  removeTags?: string[];
+  projectId?: string;
+  // Metadata keys to set; a null value removes the key
+  metadata?: Record<string, any>;
+}
+
+export interface TrashListOptions {
+  limit: number;
+  // Keyset of the last memory on the previous page (value is deleted_at)
+  after?: ListCursor;
+}
+
+/**
+ * Every MemoryStore read (and update) excludes memories in the trash, as do
+ * RelationshipStore listings for edges with either end in the trash; only
+ * trash(), restore(), listTrash(), delete() and findOwners() see them.
+ */
+export interface MemoryStore {
+  insert(memory: NewMemory): Promise<MemoryRecord>;
+  /** Insert several memories in one round trip, returning rows in input order */
+  insertMany(memories: NewMemory[]): Promise<MemoryRecord[]>;
+  getById(userId: string, id: string): Promise<MemoryRecord | null>;
+  /** The user's memories among the given ids, in no particular order */
+  getMany(userId: string, ids: string[]): Promise<MemoryRecord[]>;
+  /** Oldest of the user's memories in the project with this text hash */
+  findByTextHash(userId: string, projectId: string, hash: string): Promise<MemoryRecord | null>;
+  /** Owning user of each existing memory id (unscoped; trusted callers only) */
+  findOwners(ids: string[]): Promise<Map<string, string>>;
+  list(userId: string, options?: MemoryListOptions): Promise<MemoryRecord[]>;
+  /** Keyset-paginated listing, stable across concurrent inserts */
+  listPage(userId: string, options: MemoryPageOptions): Promise<MemoryPage>;
+  update(userId: string, id: string, updates: MemoryUpdate): Promise<MemoryRecord | null>;
+  /** Ids of the user's memories matching the selection */
+  selectIds(userId: string, selection: MemorySelection): Promise<string[]>;
+  /** Apply the same changes to the given memories in one statement, returning how many were updated */
+  bulkUpdate(userId: string, ids: string[], changes: BulkMemoryChanges): Promise<number>;
+  /** Move a memory to the trash; false if there was no such memory outside the trash */
+  trash(userId: string, id: string): Promise<boolean>;
+  /** Move the given memories to the trash, returning how many were moved */
+  trashMany(userId: string, ids: string[]): Promise<number>;
+  /** Take a memory out of the trash */
+  restore(userId: string, id: string): Promise<MemoryRecord | null>;
+  /** The user's trashed memories, most recently deleted first */
+  listTrash(userId: string, options: TrashListOptions): Promise<MemoryPage>;
+  /** Permanently delete a memory, in the trash or not; false if nothing matched */
+  delete(userId: string, id: string): Promise<boolean>;
+  /**
+   * Permanently delete up to `limit` memories (of any user) trashed before
+   * `before`, returning how many were deleted
+   */
+  purgeTrash(before: string, limit: number): Promise<number>;
+  /** Record relationship detection status without touching updated_at */
+  setDetectionStatus(userId: string, id: string, status: DetectionStatusUpdate): Promise<void>;
+  /**
+   * Up to `limit` memories (trashed or not) with no embedding or one from
+   * another model, in id order (unscoped unless userId is given; trusted
+   * callers only)
+   */
+  listStaleEmbeddings(current: EmbeddingModel, options: StaleEmbeddingOptions): Promise<StaleEmbedding[]>;
+  /** Replace a memory's embedding without touching updated_at */
+  setEmbedding(userId: string, id: string, embedding: EmbeddingColumns): Promise<void>;
+  matchByEmbedding(userId: string, embedding: number[], options: MemoryMatchOptions): Promise<MemoryMatch[]>;
+  embeddingStats(userId: string): Promise<EmbeddingModelCount[]>;
+  /** The user's projects, most recently updated first */
+  projectStats(userId: string): Promise<ProjectSummary[]>;
+}
+
+export interface NewRelationship {
+  memory_id: string;
+  related_memory_id: string;
+  relationship_type: RelationshipType;
+  strength: number;
+  explanation: string;
+  // Defaults to 'ai'
+  source?: RelationshipSource;
+  resolution?: ContradictionResolution | null;
+  resolved_at?: string | null;
+  user_id: string;
+}
+
+export type RelationshipUpdate = Partial<
+  Pick<MemoryRelationship, 'relationship_type' | 'strength' | 'explanation' | 'source' | 'resolution' | 'resolved_at'>
+>;
+
+export interface RelatedMemorySummary {
+  id: string;
+  text: string;
+  created_at: string;
+}
+
+export const RELATIONSHIP_TYPES: RelationshipType[] = [
+  'related_to',
+  'similar_to',
+  'contradicts',
+  'caused_by',
+  'causes',
+  'follows',
+  'preceded_by',
+];
+
+export const CONTRADICTION_RESOLUTIONS: ContradictionResolution[] = ['keep_a', 'keep_b', 'merge', 'both_valid'];
+
+/**
+ * The type of an edge as seen from its target memory
+ */
+export const INVERSE_RELATIONSHIP_TYPES: Record<RelationshipType, RelationshipType> = {
+  related_to: 'related_to',
+  similar_to: 'similar_to',
+  contradicts: 'contradicts',
+  caused_by: 'causes',
+  causes: 'caused_by',
+  follows: 'preceded_by',
+  preceded_by: 'follows',
+};
+
+/**
+ * Types that read the same from both ends; edges of these types are listed
+ * from both of their memories whatever the direction asked for
+ */
+export const SYMMETRIC_RELATIONSHIP_TYPES: RelationshipType[] = ['related_to', 'similar_to', 'contradicts'];
+
+// out: stored on the memory (memory_id); in: pointing at it (related_memory_id)
+export type RelationshipDirection = 'out' | 'in';
+
+/**
+ * A relationship as seen from one memory: memory_id is that memory,
+ * related_memory_id/related_memory the other end, and relationship_type is
+ * inverted for incoming edges.
+ */
+export interface RelationshipWithMemory extends MemoryRelationship {
+  direction: RelationshipDirection;
+  related_memory: RelatedMemorySummary | null;
+}
+
+export interface RelationshipListOptions {
+  // Matched against the type as seen from the memory
+  type?: string;
+  minStrength?: number;
+  limit?: number;
+  // Defaults to 'out'; symmetric types are listed in both directions
+  direction?: RelationshipDirection | 'both';
+}
+
+export interface UserRelationshipListOptions {
+  type?: RelationshipType;
+  // Only edges without a resolution
+  unresolved?: boolean;
+}
+
+export interface OwnedRelationship extends MemoryRelationship {
+  user_id: string;
+}
+
+export interface RelationshipStore {
+  /** Relationships of a memory, strongest first, oriented from that memory */
+  listForMemory(memoryId: string, options?: RelationshipListOptions): Promise<RelationshipWithMemory[]>;
+  listForUser(userId: string, options?: UserRelationshipListOptions): Promise<MemoryRelationship[]>;
+  /** Relationships originating from any of the given memories */
+  listForMemories(memoryIds: string[]): Promise<MemoryRelationship[]>;
+  /** Pair keys (see relationshipPairKey) of the given pairs that already exist, in that direction */
+  findExistingPairs(pairs: Array<{ memory_id: string; related_memory_id: string }>): Promise<Set<string>>;
+  /** Stored relationships for the given pairs, in that direction */
+  findPairs(pairs: Array<{ memory_id: string; related_memory_id: string }>): Promise<MemoryRelationship[]>;
+  insert(relationship: NewRelationship): Promise<MemoryRelationship>;
+  insertMany(relationships: NewRelationship[]): Promise<void>;
+  update(relationshipId: string, updates: RelationshipUpdate): Promise<MemoryRelationship | null>;
+  /**
+   * Move every relationship of one memory to another. Edges that would link
+   * the target to itself or duplicate one of its edges are dropped, except
+   * resolved edges between the two, which stay with the source.
+   * Returns the number of edges moved.
+   */
+  reassign(fromMemoryId: string, toMemoryId: string): Promise<number>;
+  /** The relationship with the user owning its source memory */
+  getOwner(relationshipId: string): Promise<OwnedRelationship | null>;
+  delete(relationshipId: string): Promise<void>;
+}
+
+export type FeedbackVerdict = 'accept' | 'reject' | 'retype';
+
+export const FEEDBACK_VERDICTS: FeedbackVerdict[] = ['accept', 'reject', 'retype'];
+
+/**
+ * A user's judgement of a detected relationship. Rows outlive the edge
+ * (rejected edges are deleted) so they keep the pair and the detected
+ * type and strength.
+ */
+export interface RelationshipFeedback {
+  id: string;
+  user_id: string;
+  relationship_id: string | null;
+  memory_id: string;
+  related_memory_id: string;
+  verdict: FeedbackVerdict;
+  // As detected
+  relationship_type: RelationshipType;
+  strength: number;
+  // Set for retype
+  corrected_type: RelationshipType | null;
+  created_at: string;
+}
+
+export type NewRelationshipFeedback = Omit<RelationshipFeedback, 'id' | 'created_at'>;
+
+export interface FeedbackListOptions {
+  verdict?: FeedbackVerdict;
+  // Feedback on pairs involving this memory, at either end
+  memoryId?: string;
+  limit?: number;
+}
+
+export interface RelationshipFeedbackStore {
+  insert(feedback: NewRelationshipFeedback): Promise<RelationshipFeedback>;
+  /** The user's feedback, newest first */
+  list(userId: string, options?: FeedbackListOptions): Promise<RelationshipFeedback[]>;
+}
+
+/**
+ * A previous state of a memory, recorded whenever its text, source,
+ * project, tags or metadata change. Versions are numbered from 1 (the state
+ * at creation); the current state is the one after the newest version.
+ */
+export interface MemoryVersion {
+  id: string;
+  memory_id: string;
+  user_id: string;
+  version: number;
+  text: string;
+  source: Memory['source'];
+  project_id: string;
+  tags: string[];
+  metadata: Record<string, any>;
+  // When this state was written, and when it was replaced
+  valid_from: string;
+  valid_until: string;
+}
+
+export interface MemoryVersionStore {
+  /**
+   * Versions of the user's memory, newest first. Versions are recorded by
+   * the backend on every memory update, never by callers.
+   */
+  list(userId: string, memoryId: string, options?: { limit?: number }): Promise<MemoryVersion[]>;
+  get(userId: string, memoryId: string, version: number): Promise<MemoryVersion | null>;
+}
+
+export interface ApiKeyRecord {
+  id: string;
+  user_id: string;
+  is_active: boolean;
+}
+
+/**
+ * An API key as shown to operators; the key itself is never listed
+ */
+export interface ApiKeySummary extends ApiKeyRecord {
+  name: string | null;
+  // Leading characters of the key, to tell keys apart
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface NewApiKey {
+  key: string;
+  user_id: string;
+  name?: string | null;
+}
+
+export interface ApiKeyStore {
+  findByKey(key: string): Promise<ApiKeyRecord | null>;
+  touch(id: string): Promise<void>;
+  create(apiKey: NewApiKey): Promise<ApiKeySummary>;
+  /** Keys newest first; every user's when no user is given */
+  list(userId?: string): Promise<ApiKeySummary[]>;
+  /** Deactivate a key; null if there is no such key */
+  revoke(id: string): Promise<ApiKeySummary | null>;
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export interface JobRecord {
+  id: string;
+  type: string;
+  user_id: string | null;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+  result: Record<string, any> | null;
+  // Checkpoint reported by long-running jobs; kept across retries
+  progress: Record<string, any> | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface NewJob {
+  type: string;
+  user_id?: string | null;
+  payload: Record<string, any>;
+  max_attempts: number;
+  run_at?: string;
+}
+
+export interface JobListOptions {
+  status?: JobStatus;
+  type?: string;
+  limit?: number;
+}
+
+/**
+ * Persistent job queue. Workers claim due jobs under a lease; a job whose
+ * lease expires (worker crashed) is claimed again by the next poll.
+ */
+export interface JobStore {
+  enqueue(job: NewJob): Promise<JobRecord>;
+  /** Lease up to `limit` due jobs of the given types to `workerId` */
+  claim(workerId: string, types: string[], limit: number, leaseMs: number): Promise<JobRecord[]>;
+  complete(id: string, workerId: string, result: Record<string, any> | null): Promise<void>;
+  /** Record a failed attempt: requeue at `retryAt`, or dead-letter when null */
+  fail(id: string, workerId: string, error: string, retryAt: string | null): Promise<void>;
+  /** Save progress and extend the lease of a running job */
+  heartbeat(id: string, workerId: string, progress: Record<string, any> | null, leaseMs: number): Promise<void>;
+  /** Return a leased job to the queue without counting the attempt */
+  release(id: string, workerId: string): Promise<void>;
+  get(userId: string, id: string): Promise<JobRecord | null>;
+  list(userId: string, options?: JobListOptions): Promise<JobRecord[]>;
+  /** Requeue a dead-lettered job with a fresh attempt budget */
+  retry(userId: string, id: string): Promise<JobRecord | null>;
+}
+
+export interface StorageHealth {
+  connected: boolean;
+  latency?: number;
+  error?: string;
+}
+
+/**
+ * A complete storage backend: one implementation per database
+ */
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  // Size of the stored embedding vectors; null when any size can be stored
+  readonly embeddingDimensions: number | null;
+  memories: MemoryStore;
+  relationships: RelationshipStore;
+  feedback: RelationshipFeedbackStore;
+  versions: MemoryVersionStore;
+  apiKeys: ApiKeyStore;
+  jobs: JobStore;
+
+  /**
+   * Resolve a bearer token to a user, or null if the token is invalid or the
+   * backend has no auth provider
+   */
+  verifyAccessToken(token: string): Promise<{ id: string; email?: string } | null>;
+
+  checkHealth(): Promise<StorageHealth>;
+}
+
+/**
+ * Cursor for the row following `memory` in a listing sorted by `sort`
+ */
+export function listCursorFor(memory: Memory, sort: MemorySortField): ListCursor {
+  return { value: memory[MEMORY_SORT_COLUMNS[sort]] ?? 0, id: memory.id };
+}
+
+/**
+ * Embedding as a number array (pgvector columns come back as JSON text)
+ */
+export function parseEmbedding(embedding: MemoryRecord['embedding']): number[] | null {
+  if (!embedding) return null;
+  if (Array.isArray(embedding)) return embedding;
+
+  try {
+    return JSON.parse(embedding);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Group embedding provider columns into per-model counts
+ */
+export function countEmbeddingModels(
+  rows: Array<Pick<Memory, 'embedding_provider' | 'embedding_model' | 'embedding_dim'>>
+): EmbeddingModelCount[] {
+  const counts = new Map<string, EmbeddingModelCount>();
+
+  for (const row of rows) {
+    const provider = row.embedding_provider ?? null;
+    const model = row.embedding_model ?? null;
+    const dimensions = row.embedding_dim ?? null;
+    const key = `${provider}|${model}|${dimensions}`;
+
+    const entry = counts.get(key) || { provider, model, dimensions, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+const API_KEY_PREFIX_LENGTH = 10;
+
+/**
+ * Operator view of a stored API key row; never more than half of a short
+ * key is shown
+ */
+export function summarizeApiKey({ key, ...row }: Omit<ApiKeySummary, 'key_prefix'> & { key: string }): ApiKeySummary {
+  return { ...row, key_prefix: key.slice(0, Math.min(API_KEY_PREFIX_LENGTH, Math.floor(key.length / 2))) };
+}
+
+/**
+ * Group memories by project, most recently updated project first
+ */
+export function summarizeProjects(rows: Array<Pick<Memory, 'project_id' | 'updated_at'>>): ProjectSummary[] {
+  const projects = new Map<string, ProjectSummary>();
+
+  for (const row of rows) {
+    const entry = projects.get(row.project_id) || { project_id: row.project_id, memory_count: 0, last_updated_at: row.updated_at };
+    entry.memory_count++;
+    if (row.updated_at > entry.last_updated_at) entry.last_updated_at = row.updated_at;
+    projects.set(row.project_id, entry);
+  }
+
+  return [...projects.values()].sort((a, b) =>
+    b.last_updated_at.localeCompare(a.last_updated_at) || a.project_id.localeCompare(b.project_id)
+  );
+}
+
+/**
+ * Turn a stored incoming edge around so it reads from its target memory
+ */
+export function invertRelationship<T extends MemoryRelationship>(rel: T): T {
+  return {
+    ...rel,
+    memory_id: rel.related_memory_id,
+    related_memory_id: rel.memory_id,
+    relationship_type: INVERSE_RELATIONSHIP_TYPES[rel.relationship_type],
+  };
+}
+
+/**
+ * Key used to deduplicate relationship pairs
+ */
+export function relationshipPairKey(memoryId: string, relatedMemoryId: string): string {
+  return `${memoryId}:${relatedMemoryId}`;
+}
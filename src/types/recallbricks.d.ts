@@ -13,6 +13,8 @@ export interface User {
   metadata?: Record<string, any>;
 }
 
+export type DetectionStatus = 'pending' | 'succeeded' | 'failed';
+
 export interface Memory {
   id: string;
   user_id: string;
@@ -21,6 +23,19 @@ export interface Memory {
   project_id: string;
   tags: string[];
   metadata?: Record<string, any>;
+  embedding_provider?: string | null;
+  embedding_model?: string | null;
+  embedding_dim?: number | null;
+  // See textHash() in utils/text.ts; used to find exact duplicates
+  text_hash?: string | null;
+  // Sum of the strengths of relationships touching this memory
+  relationship_strength?: number;
+  // Outcome of the last relationship detection run
+  detection_status?: DetectionStatus | null;
+  detection_error?: string | null;
+  detected_at?: string | null;
+  // Set while the memory is in the trash
+  deleted_at?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -37,12 +52,26 @@ export interface MemoryRelationship {
   id: string;
   memory_id: string;
   related_memory_id: string;
-  relationship_type: 'related_to' | 'caused_by' | 'similar_to' | 'follows' | 'contradicts';
+  relationship_type: RelationshipType;
   strength: number;
   explanation: string;
+  // Detected by the model, or created/edited by the user (never re-detected)
+  source: RelationshipSource;
+  // How a contradicts edge was resolved (null while unresolved)
+  resolution?: ContradictionResolution | null;
+  resolved_at?: string | null;
   created_at: string;
+  updated_at?: string | null;
 }
 
+export type RelationshipSource = 'ai' | 'user';
+
+/**
+ * keep_a / keep_b keep one memory (a is memory_id, b related_memory_id) and
+ * delete the other, merge rewrites a and deletes b, both_valid keeps both
+ */
+export type ContradictionResolution = 'keep_a' | 'keep_b' | 'merge' | 'both_valid';
+
 export interface DetectedRelationship {
   memory_id: string;
   related_memory_id: string;
@@ -51,12 +80,26 @@ export interface DetectedRelationship {
   explanation: string;
 }
 
-export type RelationshipType = 'related_to' | 'caused_by' | 'similar_to' | 'follows' | 'contradicts';
+/**
+ * Edges are stored from memory_id to related_memory_id. Seen from the other
+ * end, causes/caused_by and follows/preceded_by swap; similar_to, related_to
+ * and contradicts are symmetric.
+ */
+export type RelationshipType =
+  | 'related_to'
+  | 'similar_to'
+  | 'contradicts'
+  | 'caused_by'
+  | 'causes'
+  | 'follows'
+  | 'preceded_by';
 
 export interface RelationshipDetectionResult {
   success: boolean;
   relationshipsFound: number;
   relationshipsStored: number;
+  // Relationships dropped because the model referenced unknown or mismatched candidates
+  relationshipsRejected?: number;
   processingTimeMs: number;
   error?: string;
 }
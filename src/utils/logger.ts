@@ -28,6 +28,7 @@ interface LogEntry {
 
 class Logger {
   private minLevel: LogLevel;
+  private stderrOnly = false;
 
   constructor() {
     const envLevel = process.env.LOG_LEVEL?.toLowerCase();
@@ -76,7 +77,7 @@ class Logger {
 
     const formatted = this.formatLog(entry);
 
-    if (level === LogLevel.ERROR) {
+    if (level === LogLevel.ERROR || this.stderrOnly) {
       console.error(formatted);
     } else if (level === LogLevel.WARN) {
       console.warn(formatted);
@@ -101,6 +102,11 @@ class Logger {
     this.log(LogLevel.ERROR, message, meta);
   }
 
+  // Write every level to stderr, keeping stdout for MCP over stdio or CLI output
+  useStderr(): void {
+    this.stderrOnly = true;
+  }
+
   // HTTP request logging
   logRequest(data: {
     requestId: string;
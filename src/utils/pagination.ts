@@ -0,0 +1,36 @@
+/**
+ * Cursor Pagination Helpers
+ *
+ * Cursors are opaque base64url-encoded JSON keysets so clients never
+ * depend on their internal shape.
+ */
+
+export function encodeCursor(keyset: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(keyset), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor, returning null if it is malformed or missing any of the
+ * required keys
+ */
+export function decodeCursor<T extends Record<string, unknown>>(
+  cursor: string,
+  requiredKeys: Array<keyof T>
+): T | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!parsed || typeof parsed !== 'object') {
+      return null;
+    }
+
+    for (const key of requiredKeys) {
+      if (parsed[key] === undefined || parsed[key] === null) {
+        return null;
+      }
+    }
+
+    return parsed as T;
+  } catch {
+    return null;
+  }
+}
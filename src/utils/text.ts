@@ -0,0 +1,43 @@
+/**
+ * Text Utilities
+ *
+ * Keyword extraction shared by context recall and lexical search, and text
+ * hashing for deduplication
+ */
+
+import { createHash } from 'crypto';
+
+export const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from',
+  'is', 'was', 'are', 'were', 'been', 'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will',
+  'would', 'could', 'should', 'can', 'may', 'might', 'what', 'when', 'where', 'who', 'how', 'why',
+  'this', 'that', 'these', 'those',
+]);
+
+/**
+ * Lowercase, strip punctuation and drop stop words and very short words
+ */
+export function extractKeywords(text: string, max: number = 10): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .slice(0, max);
+}
+
+/**
+ * Build a websearch-style query matching any of the keywords
+ */
+export function anyKeywordQuery(keywords: string[]): string {
+  return keywords.join(' or ');
+}
+
+/**
+ * Hash of the text with case and whitespace normalised, for exact-duplicate
+ * lookups (matches the backfill in migrations/011_memory_dedupe.sql)
+ */
+export function textHash(text: string): string {
+  const normalized = text.trim().replace(/\s+/g, ' ').toLowerCase();
+  return createHash('sha256').update(normalized, 'utf8').digest('hex');
+}